@@ -0,0 +1,27 @@
+/**
+ * Script to generate src/types/api.ts from api-spec.yaml, mutation-definitions/*.json
+ * and the message code tables in README.md.
+ * Run with: npx ts-node scripts/generate-api-types.ts [--check]
+ * With --check, nothing is written and the script fails if the committed types have drifted.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { generateApiTypes, findApiTypesDrift, API_TYPES_FILE } from '../src/helpers/api-type-generator';
+
+const typesPath = path.join(__dirname, '..', API_TYPES_FILE);
+const generated = generateApiTypes();
+
+if (process.argv.includes('--check')) {
+  const committed = fs.existsSync(typesPath) ? fs.readFileSync(typesPath, 'utf-8') : '';
+  const drift = findApiTypesDrift(committed, generated);
+  if (drift) {
+    console.error(`${API_TYPES_FILE} is out of date with the specification (${drift}).`);
+    console.error('Run `npm run generate-api-types` and commit the result.');
+    process.exit(1);
+  }
+  console.log(`${API_TYPES_FILE} matches the specification.`);
+} else {
+  fs.writeFileSync(typesPath, generated);
+  console.log(`Generated ${API_TYPES_FILE}`);
+}
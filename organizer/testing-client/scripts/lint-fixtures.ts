@@ -0,0 +1,48 @@
+/**
+ * Script to lint fixture files: TestFixture shape, mutation properties against
+ * mutation-definitions/, and expected values re-derived with the reference engine.
+ * Run with: npx ts-node scripts/lint-fixtures.ts [file-or-dir ...]
+ * Defaults to the fixtures/ directory.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { lintFixture } from '../src/validation/fixture-linter';
+
+const targets = process.argv.slice(2);
+if (targets.length === 0) {
+  targets.push(path.join(__dirname, '..', 'fixtures'));
+}
+
+const files = targets.flatMap(target =>
+  fs.statSync(target).isDirectory()
+    ? fs.readdirSync(target).filter(f => f.endsWith('.json')).sort().map(f => path.join(target, f))
+    : [target]
+);
+
+let failed = 0;
+
+for (const file of files) {
+  const name = path.relative(process.cwd(), file);
+  let problems: string[];
+  try {
+    problems = lintFixture(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  } catch (error) {
+    problems = [`Could not parse JSON: ${(error as Error).message}`];
+  }
+
+  if (problems.length === 0) {
+    console.log(`  \x1b[32mPASS\x1b[0m  ${name}`);
+  } else {
+    failed++;
+    console.log(`  \x1b[31mFAIL\x1b[0m  ${name}`);
+    for (const problem of problems) {
+      console.log(`    \x1b[33m→ ${problem}\x1b[0m`);
+    }
+  }
+}
+
+console.log(`\n${files.length - failed}/${files.length} fixtures passed lint.`);
+if (failed > 0) {
+  process.exit(1);
+}
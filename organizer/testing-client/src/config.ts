@@ -2,23 +2,75 @@
  * CLI argument parsing and configuration.
  */
 
+import * as os from 'os';
+import * as path from 'path';
 import { Command } from 'commander';
+import { HttpProtocol, ResponseEncoding } from './helpers/http-client';
+import { parseMemorySize } from './helpers/team-container';
+
+const PROTOCOLS: HttpProtocol[] = ['http1', 'h2c'];
+const ENCODINGS: ResponseEncoding[] = ['identity', 'gzip', 'br'];
+
+export interface TransportOption {
+  protocol: HttpProtocol;
+  encoding: ResponseEncoding;
+}
 
 export interface Config {
   target: string;
-  suite: 'all' | 'correctness' | 'performance' | 'bonus';
+  suite: 'all' | 'correctness' | 'performance' | 'bonus' | 'differential' | 'metamorphic' | 'soak';
   output?: string;
   team: string;
   coldStartImage?: string;
   skipColdStart: boolean;
+  /** CPUs (Docker --cpuset-cpus) of the containers the suites start from coldStartImage. */
+  cpuset?: string;
+  /** Run the performance suite against a container of coldStartImage with the limits below. */
+  performanceContainer: boolean;
+  containerCpus: number;
+  containerMemoryBytes: number;
   codePath?: string;
   verbose: boolean;
+  /** JSON Lines file logging every request sent to the target. */
+  requestLog?: string;
   warmupRequests: number;
   throughputDuration: number;
   concurrencyLevel: number;
+  /** Highest connection count of the concurrency sweep (1, 2, 4, ... up to this). */
+  concurrencySweepMax: number;
+  concurrencyStepDuration: number;
+  skipScalability: boolean;
   resultsDir?: string;
   leaderboard: boolean;
   commitSha?: string;
+  selfTest: boolean;
+  differentialCount: number;
+  seed: number;
+  differentialOutput: string;
+  contractScore: boolean;
+  /** Target request rates for the open-loop load test (empty: not run). */
+  openLoopRates: number[];
+  openLoopDuration: number;
+  p99SloMs: number;
+  soakDuration: number;
+  soakSampleInterval: number;
+  uniquePayloads: boolean;
+  validationSampleRate: number;
+  maxIncorrectUnderLoad: number;
+  /** Traffic profile file for the throughput test (default: uniform mix). */
+  trafficProfile?: string;
+  /** Protocol/encoding combinations to compare (empty: not run). */
+  transports: TransportOption[];
+  transportDuration: number;
+  /** teams.json to test every team from (orchestrator mode). */
+  teamsFile?: string;
+  /** Teams tested at the same time by the orchestrator. */
+  parallel: number;
+  reposDir: string;
+  /** CPUs pinned to each team's container by the orchestrator. */
+  teamCpus: number;
+  teamMemory: string;
+  shuffle: boolean;
 }
 
 export function parseConfig(argv?: string[]): Config {
@@ -28,19 +80,49 @@ export function parseConfig(argv?: string[]): Config {
     .name('hackathon-testing-client')
     .description('Testing client for the Visma Performance Hackathon')
     .option('--target <url>', 'Base URL of the team\'s API (e.g., http://localhost:8080)')
-    .option('--suite <name>', 'Which test suite to run: all, correctness, performance, bonus', 'all')
+    .option('--suite <name>', 'Which test suite to run: all, correctness, performance, bonus, differential, metamorphic, soak', 'all')
     .option('--output <path>', 'Path to write JSON results file')
     .option('--team <name>', 'Team name (included in output)', 'unnamed')
-    .option('--cold-start-image <image>', 'Docker image name for cold start and scheme registry testing')
+    .option('--cold-start-image <image>', 'Docker image name for cold start and scheme registry testing (and soak container stats)')
     .option('--skip-cold-start', 'Skip cold start timing test (image is still used for scheme registry)', false)
+    .option('--performance-container', 'Run the performance suite against a fresh container of --cold-start-image limited to --container-cpus and --container-memory', false)
+    .option('--container-cpus <count>', 'CPU limit (Docker NanoCpus) of the --performance-container container', '2')
+    .option('--container-memory <size>', 'Memory limit of the --performance-container container, e.g. 512m or 2g', '2g')
+    .option('--cpuset <cpus>', 'Pin containers started from --cold-start-image to these CPUs (Docker --cpuset-cpus, e.g. 1-2)')
     .option('--code-path <path>', 'Path to team\'s source code for AI code review')
     .option('--verbose', 'Show detailed output including request/response bodies for failed tests', false)
+    .option('--request-log <path>', 'Write a JSON Lines log of every request sent to the target (status, latency, sizes)')
     .option('--warmup-requests <count>', 'Number of warmup requests before performance measurement', '20')
     .option('--throughput-duration <seconds>', 'Duration in seconds for throughput test', '15')
     .option('--concurrency-level <count>', 'Number of concurrent connections for concurrency test', '50')
+    .option('--concurrency-sweep-max <count>', 'Highest connection count of the concurrency scaling sweep (1, 2, 4, ... up to this)', '512')
+    .option('--concurrency-step-duration <seconds>', 'Duration in seconds of each concurrency sweep step', '3')
+    .option('--skip-scalability', 'Skip the latency measurement on generated large-dossier stress scenarios', false)
     .option('--results-dir <path>', 'Directory with JSON result files for leaderboard scoring')
     .option('--leaderboard', 'Calculate and display multi-team leaderboard', false)
-    .option('--commit-sha <sha>', 'Git commit SHA being tested (recorded in submissions history)');
+    .option('--commit-sha <sha>', 'Git commit SHA being tested (recorded in submissions history)')
+    .option('--self-test', 'Run against the built-in reference engine instead of --target', false)
+    .option('--differential-count <count>', 'Number of generated requests for the differential suite', '2000')
+    .option('--seed <number>', 'Seed for generated requests and IDs (default: random, printed for reproduction)')
+    .option('--differential-output <dir>', 'Directory for fixtures reproducing differential failures', 'results/differential')
+    .option('--contract-score', 'Report api-spec.yaml conformance of correctness responses as a separate score', false)
+    .option('--open-loop-rates <list>', 'Comma-separated request rates (req/s) for the open-loop load test, e.g. 500,1000,5000')
+    .option('--open-loop-duration <seconds>', 'Duration in seconds of each open-loop rate step', '10')
+    .option('--p99-slo-ms <ms>', 'p99 latency SLO for the highest sustainable open-loop rate', '50')
+    .option('--traffic-profile <path>', 'Traffic profile file weighting the throughput request mix (e.g. traffic-profiles/production.yaml)')
+    .option('--no-unique-payloads', 'Send fixture bodies as-is in performance tests instead of per-request variants')
+    .option('--validation-sample-rate <fraction>', 'Fraction of performance test responses validated against the reference engine', '0.01')
+    .option('--max-incorrect-under-load <fraction>', 'Fraction of incorrect sampled responses under load above which performance scores are zero', '0.01')
+    .option('--transports <list>', 'Comma-separated transports to compare, <protocol>[+<encoding>] with protocol http1 or h2c and encoding identity, gzip or br, e.g. http1,h2c,http1+br')
+    .option('--transport-duration <seconds>', 'Duration in seconds of the closed-loop load per transport', '5')
+    .option('--soak-duration <minutes>', 'Duration in minutes of the soak suite', '30')
+    .option('--soak-sample-interval <seconds>', 'Seconds per soak sample (latency percentiles and container stats)', '60')
+    .option('--teams-file <path>', 'Test every team in a teams.json (clone, build, run) and write the results to --results-dir')
+    .option('--parallel <count>', 'Teams tested at the same time with --teams-file (performance phases still run one at a time)', '2')
+    .option('--repos-dir <path>', 'Directory team repositories are cloned into with --teams-file', path.join(os.homedir(), 'repos'))
+    .option('--team-cpus <count>', 'CPUs pinned (Docker cpuset) to each team container with --teams-file', '2')
+    .option('--team-memory <size>', 'Memory limit of each team container with --teams-file (Docker --memory)', '4g')
+    .option('--no-shuffle', 'Test teams in teams.json order instead of a seeded random order');
 
   if (argv) {
     program.parse(argv, { from: 'user' });
@@ -50,15 +132,27 @@ export function parseConfig(argv?: string[]): Config {
 
   const opts = program.opts();
 
-  // Validate: --target is required unless in leaderboard-only mode
+  // Validate: --target is required unless in leaderboard-only, self-test or orchestrator mode
   const isLeaderboardOnly = opts.leaderboard && opts.resultsDir && !opts.target;
-  if (!opts.target && !isLeaderboardOnly) {
-    console.error('Error: --target <url> is required (unless using --leaderboard --results-dir)');
+  if (!opts.target && !isLeaderboardOnly && !opts.selfTest && !opts.teamsFile) {
+    console.error('Error: --target <url> is required (unless using --self-test, --teams-file or --leaderboard --results-dir)');
+    process.exit(1);
+  }
+  if (opts.teamsFile && (opts.target || opts.selfTest)) {
+    console.error('Error: --teams-file cannot be combined with --target or --self-test');
+    process.exit(1);
+  }
+  if (opts.teamsFile && !opts.resultsDir) {
+    console.error('Error: --teams-file requires --results-dir for the team result files');
+    process.exit(1);
+  }
+  if (opts.target && opts.selfTest) {
+    console.error('Error: --target and --self-test cannot be combined');
     process.exit(1);
   }
 
   // Validate --suite value
-  const validSuites = ['all', 'correctness', 'performance', 'bonus'];
+  const validSuites = ['all', 'correctness', 'performance', 'bonus', 'differential', 'metamorphic', 'soak'];
   if (!validSuites.includes(opts.suite)) {
     console.error(`Error: --suite must be one of: ${validSuites.join(', ')}. Got: "${opts.suite}"`);
     process.exit(1);
@@ -68,6 +162,27 @@ export function parseConfig(argv?: string[]): Config {
   const warmupRequests = parseInt(opts.warmupRequests, 10);
   const throughputDuration = parseInt(opts.throughputDuration, 10);
   const concurrencyLevel = parseInt(opts.concurrencyLevel, 10);
+  const concurrencySweepMax = parseInt(opts.concurrencySweepMax, 10);
+  const concurrencyStepDuration = parseInt(opts.concurrencyStepDuration, 10);
+  const differentialCount = parseInt(opts.differentialCount, 10);
+  const openLoopRates = opts.openLoopRates !== undefined
+    ? String(opts.openLoopRates).split(',').map(r => parseInt(r.trim(), 10))
+    : [];
+  const openLoopDuration = parseInt(opts.openLoopDuration, 10);
+  const p99SloMs = parseFloat(opts.p99SloMs);
+  const validationSampleRate = parseFloat(opts.validationSampleRate);
+  const maxIncorrectUnderLoad = parseFloat(opts.maxIncorrectUnderLoad);
+  const transports = opts.transports !== undefined
+    ? String(opts.transports).split(',').map(t => parseTransport(t.trim()))
+    : [];
+  const transportDuration = parseInt(opts.transportDuration, 10);
+  const soakDuration = parseFloat(opts.soakDuration);
+  const soakSampleInterval = parseInt(opts.soakSampleInterval, 10);
+  const containerCpus = parseFloat(opts.containerCpus);
+  const containerMemoryBytes = parseMemorySize(String(opts.containerMemory));
+  const parallel = parseInt(opts.parallel, 10);
+  const teamCpus = parseInt(opts.teamCpus, 10);
+  const seed = opts.seed !== undefined ? parseInt(opts.seed, 10) : Math.floor(Math.random() * 2 ** 31);
 
   if (isNaN(warmupRequests) || warmupRequests < 0) {
     console.error(`Error: --warmup-requests must be a non-negative integer. Got: "${opts.warmupRequests}"`);
@@ -81,6 +196,85 @@ export function parseConfig(argv?: string[]): Config {
     console.error(`Error: --concurrency-level must be a positive integer. Got: "${opts.concurrencyLevel}"`);
     process.exit(1);
   }
+  if (isNaN(concurrencySweepMax) || concurrencySweepMax <= 0) {
+    console.error(`Error: --concurrency-sweep-max must be a positive integer. Got: "${opts.concurrencySweepMax}"`);
+    process.exit(1);
+  }
+  if (isNaN(concurrencyStepDuration) || concurrencyStepDuration <= 0) {
+    console.error(`Error: --concurrency-step-duration must be a positive integer. Got: "${opts.concurrencyStepDuration}"`);
+    process.exit(1);
+  }
+  if (isNaN(differentialCount) || differentialCount <= 0) {
+    console.error(`Error: --differential-count must be a positive integer. Got: "${opts.differentialCount}"`);
+    process.exit(1);
+  }
+  if (openLoopRates.some(r => isNaN(r) || r <= 0)) {
+    console.error(`Error: --open-loop-rates must be a comma-separated list of positive integers. Got: "${opts.openLoopRates}"`);
+    process.exit(1);
+  }
+  if (isNaN(openLoopDuration) || openLoopDuration <= 0) {
+    console.error(`Error: --open-loop-duration must be a positive integer. Got: "${opts.openLoopDuration}"`);
+    process.exit(1);
+  }
+  if (isNaN(p99SloMs) || p99SloMs <= 0) {
+    console.error(`Error: --p99-slo-ms must be a positive number. Got: "${opts.p99SloMs}"`);
+    process.exit(1);
+  }
+  if (isNaN(validationSampleRate) || validationSampleRate < 0 || validationSampleRate > 1) {
+    console.error(`Error: --validation-sample-rate must be a number between 0 and 1. Got: "${opts.validationSampleRate}"`);
+    process.exit(1);
+  }
+  if (isNaN(maxIncorrectUnderLoad) || maxIncorrectUnderLoad < 0 || maxIncorrectUnderLoad > 1) {
+    console.error(`Error: --max-incorrect-under-load must be a number between 0 and 1. Got: "${opts.maxIncorrectUnderLoad}"`);
+    process.exit(1);
+  }
+  if (transports.some(t => t === null)) {
+    console.error(
+      `Error: --transports must be a comma-separated list of <protocol>[+<encoding>] with protocol ` +
+      `${PROTOCOLS.join(' or ')} and encoding ${ENCODINGS.join(', ')}. Got: "${opts.transports}"`
+    );
+    process.exit(1);
+  }
+  if (isNaN(transportDuration) || transportDuration <= 0) {
+    console.error(`Error: --transport-duration must be a positive integer. Got: "${opts.transportDuration}"`);
+    process.exit(1);
+  }
+  if (isNaN(soakDuration) || soakDuration <= 0) {
+    console.error(`Error: --soak-duration must be a positive number of minutes. Got: "${opts.soakDuration}"`);
+    process.exit(1);
+  }
+  if (isNaN(soakSampleInterval) || soakSampleInterval <= 0) {
+    console.error(`Error: --soak-sample-interval must be a positive integer. Got: "${opts.soakSampleInterval}"`);
+    process.exit(1);
+  }
+  if (opts.performanceContainer && !opts.coldStartImage) {
+    console.error('Error: --performance-container requires --cold-start-image (the image to start)');
+    process.exit(1);
+  }
+  if (isNaN(containerCpus) || containerCpus <= 0) {
+    console.error(`Error: --container-cpus must be a positive number. Got: "${opts.containerCpus}"`);
+    process.exit(1);
+  }
+  if (containerMemoryBytes === null) {
+    console.error(`Error: --container-memory must be a size such as 512m or 2g. Got: "${opts.containerMemory}"`);
+    process.exit(1);
+  }
+  if (isNaN(parallel) || parallel <= 0) {
+    console.error(`Error: --parallel must be a positive integer. Got: "${opts.parallel}"`);
+    process.exit(1);
+  }
+  if (isNaN(teamCpus) || teamCpus <= 0) {
+    console.error(`Error: --team-cpus must be a positive integer. Got: "${opts.teamCpus}"`);
+    process.exit(1);
+  }
+  if (parseMemorySize(String(opts.teamMemory)) === null) {
+    console.error(`Error: --team-memory must be a size such as 512m or 2g. Got: "${opts.teamMemory}"`);
+    process.exit(1);
+  }
+  if (isNaN(seed)) {
+    console.error(`Error: --seed must be an integer. Got: "${opts.seed}"`);
+    process.exit(1);
+  }
 
   return {
     target: opts.target ? opts.target.replace(/\/$/, '') : '',
@@ -89,13 +283,53 @@ export function parseConfig(argv?: string[]): Config {
     team: opts.team,
     coldStartImage: opts.coldStartImage,
     skipColdStart: opts.skipColdStart,
+    cpuset: opts.cpuset,
+    performanceContainer: opts.performanceContainer,
+    containerCpus,
+    containerMemoryBytes,
     codePath: opts.codePath,
     verbose: opts.verbose,
+    requestLog: opts.requestLog,
     warmupRequests,
     throughputDuration,
     concurrencyLevel,
+    concurrencySweepMax,
+    concurrencyStepDuration,
+    skipScalability: opts.skipScalability,
     resultsDir: opts.resultsDir,
     leaderboard: opts.leaderboard,
     commitSha: opts.commitSha,
+    selfTest: opts.selfTest,
+    differentialCount,
+    seed,
+    differentialOutput: opts.differentialOutput,
+    contractScore: opts.contractScore,
+    openLoopRates: [...new Set(openLoopRates)].sort((a, b) => a - b),
+    openLoopDuration,
+    p99SloMs,
+    soakDuration,
+    soakSampleInterval,
+    trafficProfile: opts.trafficProfile,
+    uniquePayloads: opts.uniquePayloads,
+    validationSampleRate,
+    maxIncorrectUnderLoad,
+    transports: transports as TransportOption[],
+    transportDuration,
+    teamsFile: opts.teamsFile,
+    parallel,
+    reposDir: opts.reposDir,
+    teamCpus,
+    teamMemory: opts.teamMemory,
+    shuffle: opts.shuffle,
   };
 }
+
+/**
+ * Parse "<protocol>[+<encoding>]" (encoding defaults to identity). Returns null when invalid.
+ */
+function parseTransport(value: string): TransportOption | null {
+  const [protocol, encoding = 'identity', ...rest] = value.split('+');
+  if (rest.length > 0) return null;
+  if (!PROTOCOLS.includes(protocol as HttpProtocol) || !ENCODINGS.includes(encoding as ResponseEncoding)) return null;
+  return { protocol: protocol as HttpProtocol, encoding: encoding as ResponseEncoding };
+}
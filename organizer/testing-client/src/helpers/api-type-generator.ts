@@ -0,0 +1,301 @@
+/**
+ * Generates src/types/api.ts from the specification:
+ * - request/response types from the component schemas in api-spec.yaml
+ * - one properties interface per mutation definition in mutation-definitions/
+ * - MESSAGE_CODES from the validation tables in the root README.md
+ *
+ * Inline object schemas and enums get names from INLINE_TYPE_NAMES, keyed by
+ * their path in the spec, so the generated names stay stable and readable.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from 'yaml';
+
+const REPO_ROOT = path.join(__dirname, '..', '..', '..', '..');
+const API_SPEC_PATH = path.join(REPO_ROOT, 'api-spec.yaml');
+const MUTATION_DEFINITIONS_DIR = path.join(REPO_ROOT, 'mutation-definitions');
+const README_PATH = path.join(REPO_ROOT, 'README.md');
+
+/** Path of the generated file, relative to the testing-client directory. */
+export const API_TYPES_FILE = path.join('src', 'types', 'api.ts');
+
+interface SchemaObject {
+  type?: string;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  items?: SchemaObject;
+  enum?: unknown[];
+  nullable?: boolean;
+  $ref?: string;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  additionalProperties?: boolean | SchemaObject;
+}
+
+interface MutationDefinitionFile {
+  name: string;
+  mutation_type: string;
+  json_schema: SchemaObject;
+}
+
+/** Component schemas emitted under a different name. */
+const TYPE_NAMES: Record<string, string> = {
+  BaseCalculationMutation: 'BaseMutation',
+  DossierCreationCalculationMutation: 'DossierCreationMutation',
+  DossierCalculationMutation: 'DossierMutation',
+  SimplifiedSituation: 'Situation',
+};
+
+/** Names for inline object schemas and enums, keyed by their path in the spec. */
+const INLINE_TYPE_NAMES: Record<string, string> = {
+  'CalculationRequest.calculation_instructions': 'CalculationInstructions',
+  'BaseCalculationMutation.mutation_definition_name': 'MutationDefinitionName',
+  'BaseCalculationMutation.mutation_type': 'MutationType',
+  'CalculationResponse.calculation_metadata': 'CalculationMetadata',
+  'CalculationResponse.calculation_result': 'CalculationResult',
+  'CalculationResponse.calculation_result.mutations[]': 'ProcessedMutation',
+  'CalculationResponse.calculation_result.end_situation': 'EndSituation',
+  'CalculationResponse.calculation_result.initial_situation': 'InitialSituation',
+  'JsonPatchDocument[]': 'JsonPatchOperation',
+  'SimplifiedSituation.dossier': 'Dossier',
+  'SimplifiedSituation.dossier.persons[]': 'Person',
+  'SimplifiedSituation.dossier.policies[]': 'Policy',
+  'SimplifiedSituation.dossier.policies[].projections[]': 'Projection',
+};
+
+/** Component schemas per section of the generated file, in output order. */
+const REQUEST_SCHEMAS = [
+  'CalculationRequest',
+  'CalculationMutation',
+  'BaseCalculationMutation',
+  'DossierCreationCalculationMutation',
+  'DossierCalculationMutation',
+];
+const RESPONSE_SCHEMAS = [
+  'CalculationResponse',
+  'CalculationMessage',
+  'JsonPatchDocument',
+  'SimplifiedSituation',
+  'ErrorResponse',
+];
+
+const MESSAGE_CODE_ROW = /^\|[^|]*\|\s*`([A-Z_]+)`\s*\|\s*(CRITICAL|WARNING)\s*\|/;
+
+/**
+ * Generate the full contents of src/types/api.ts.
+ */
+export function generateApiTypes(): string {
+  const spec = parse(fs.readFileSync(API_SPEC_PATH, 'utf-8')) as {
+    components: { schemas: Record<string, SchemaObject> };
+  };
+  const schemas = spec.components.schemas;
+  const definitionOrder = schemas.BaseCalculationMutation?.properties?.mutation_definition_name?.enum ?? [];
+  const definitions = loadMutationDefinitions()
+    .sort((a, b) => orderIndex(definitionOrder, a.name) - orderIndex(definitionOrder, b.name));
+
+  const unplaced = Object.keys(schemas).filter(n => !REQUEST_SCHEMAS.includes(n) && !RESPONSE_SCHEMAS.includes(n));
+  if (unplaced.length > 0) {
+    throw new Error(`No section for component schema(s) ${unplaced.join(', ')}: add them to api-type-generator.ts`);
+  }
+
+  const emitter = new TypeEmitter(schemas, definitions);
+  const propertyTypes = definitions.map(d =>
+    emitter.declaration(propertiesTypeName(d.name), d.json_schema, d.name)
+  );
+
+  return [
+    '/**',
+    ' * TypeScript types matching the OpenAPI schema for the Pension Calculation Engine API.',
+    ' *',
+    ' * Generated from api-spec.yaml, mutation-definitions/*.json and README.md by',
+    ' * scripts/generate-api-types.ts. Do not edit by hand: run `npm run generate-api-types`.',
+    ' */',
+    '',
+    '// ============ Request Types ============',
+    '',
+    ...REQUEST_SCHEMAS.flatMap(n => emitter.component(n, schemas[n])),
+    '// ============ Mutation Property Types ============',
+    '',
+    ...propertyTypes.flat(),
+    '// ============ Response Types ============',
+    '',
+    ...RESPONSE_SCHEMAS.flatMap(n => emitter.component(n, schemas[n])),
+    '// ============ Message Codes ============',
+    '',
+    'export const MESSAGE_CODES = {',
+    ...loadMessageCodes().map(code => `  ${code}: '${code}',`),
+    '} as const;',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Compare generated types with the committed file.
+ * Returns a description of the first difference, or null when they match.
+ */
+export function findApiTypesDrift(committed: string, generated: string): string | null {
+  if (committed === generated) return null;
+
+  const committedLines = committed.split('\n');
+  const generatedLines = generated.split('\n');
+  const length = Math.max(committedLines.length, generatedLines.length);
+  for (let i = 0; i < length; i++) {
+    if (committedLines[i] !== generatedLines[i]) {
+      return `line ${i + 1}: committed ${JSON.stringify(committedLines[i] ?? '<end of file>')}, ` +
+        `spec implies ${JSON.stringify(generatedLines[i] ?? '<end of file>')}`;
+    }
+  }
+  return 'files differ';
+}
+
+function loadMutationDefinitions(): MutationDefinitionFile[] {
+  return fs.readdirSync(MUTATION_DEFINITIONS_DIR)
+    .filter(f => f.endsWith('.json'))
+    .sort()
+    .map(f => JSON.parse(fs.readFileSync(path.join(MUTATION_DEFINITIONS_DIR, f), 'utf-8')) as MutationDefinitionFile);
+}
+
+/** Position of a value in the spec's order; unknown values go last. */
+function orderIndex(order: unknown[], value: string): number {
+  const index = order.indexOf(value);
+  return index === -1 ? order.length : index;
+}
+
+/**
+ * Message codes from the README validation tables, in order of first appearance.
+ */
+function loadMessageCodes(): string[] {
+  const codes = new Set<string>();
+  for (const line of fs.readFileSync(README_PATH, 'utf-8').split('\n')) {
+    const match = MESSAGE_CODE_ROW.exec(line);
+    if (match) codes.add(match[1]);
+  }
+  return [...codes];
+}
+
+function propertiesTypeName(definitionName: string): string {
+  return definitionName.split('_').map(w => w[0].toUpperCase() + w.slice(1)).join('') + 'Properties';
+}
+
+// ============ Emitter ============
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+class TypeEmitter {
+  constructor(
+    private readonly schemas: Record<string, SchemaObject>,
+    private readonly definitions: MutationDefinitionFile[],
+  ) {}
+
+  /**
+   * Emit a component schema and the named inline types it contains.
+   */
+  component(schemaName: string, schema: SchemaObject): string[] {
+    return this.declaration(TYPE_NAMES[schemaName] ?? schemaName, schema, schemaName);
+  }
+
+  /**
+   * Emit `name` (interface or type alias) followed by the inline types it names, each
+   * followed by a blank line.
+   */
+  declaration(name: string, schema: SchemaObject, specPath: string): string[] {
+    const nested: string[] = [];
+
+    if (schema.allOf) {
+      const base = schema.allOf.find(s => s.$ref);
+      const own = schema.allOf.filter(s => !s.$ref);
+      const properties = Object.assign({}, ...own.map(s => s.properties ?? {})) as Record<string, SchemaObject>;
+      // Properties that narrow a base property stay required if the base requires them
+      const baseRequired = base ? this.schemas[base.$ref!.split('/').pop()!]?.required ?? [] : [];
+      const required = [...own.flatMap(s => s.required ?? []), ...baseRequired];
+      const body = this.interfaceBody({ properties, required }, specPath, nested);
+      const override = this.mutationPropertiesOverride(properties);
+      body.push(...override);
+      let heritage = '';
+      if (base) {
+        const baseName = this.refName(base.$ref!);
+        heritage = override.length > 0 ? ` extends Omit<${baseName}, 'mutation_properties'>` : ` extends ${baseName}`;
+      }
+      return [`export interface ${name}${heritage} {`, ...body, '}', '', ...nested];
+    }
+
+    if (schema.type === 'object' && schema.properties) {
+      const body = this.interfaceBody(schema, specPath, nested);
+      return [`export interface ${name} {`, ...body, '}', '', ...nested];
+    }
+
+    // Unions of more than two members are written one member per line
+    const members = schema.oneOf
+      ? schema.oneOf.map(s => this.typeExpression(s, specPath, nested))
+      : (schema.enum ?? []).map(literal);
+    if (schema.oneOf || members.length > 2) {
+      return [`export type ${name} =`, ...members.map((m, i) => `  | ${m}${i === members.length - 1 ? ';' : ''}`), '', ...nested];
+    }
+
+    const type = this.typeExpression({ ...schema, nullable: false }, specPath, nested, false);
+    return [`export type ${name} = ${type};`, '', ...nested];
+  }
+
+  private interfaceBody(schema: SchemaObject, specPath: string, nested: string[]): string[] {
+    const required = new Set(schema.required ?? []);
+    return Object.entries(schema.properties ?? {}).map(([property, propertySchema]) => {
+      const type = this.typeExpression(propertySchema, `${specPath}.${property}`, nested);
+      return `  ${property}${required.has(property) ? '' : '?'}: ${type};`;
+    });
+  }
+
+  /**
+   * Dossier mutations carry the properties of the mutation definitions with their
+   * mutation_type, which the spec itself leaves as a free-form object.
+   */
+  private mutationPropertiesOverride(properties: Record<string, SchemaObject>): string[] {
+    const mutationTypes = properties.mutation_type?.enum;
+    if (!mutationTypes || mutationTypes.length !== 1) return [];
+
+    const names = this.definitions
+      .filter(d => d.mutation_type === mutationTypes[0])
+      .map(d => propertiesTypeName(d.name));
+    return names.length > 0 ? [`  mutation_properties: ${names.join(' | ')};`] : [];
+  }
+
+  private typeExpression(schema: SchemaObject, specPath: string, nested: string[], allowNamed = true): string {
+    const named = allowNamed ? INLINE_TYPE_NAMES[specPath] : undefined;
+    let type: string;
+
+    if (named) {
+      nested.push(...this.declaration(named, { ...schema, nullable: false }, specPath));
+      type = named;
+    } else if (schema.$ref) {
+      type = this.refName(schema.$ref);
+    } else if (schema.oneOf) {
+      type = schema.oneOf.map(s => this.typeExpression(s, specPath, nested)).join(' | ');
+    } else if (schema.enum) {
+      type = schema.enum.map(literal).join(' | ');
+    } else if (schema.type === 'array') {
+      const item = this.typeExpression(schema.items ?? {}, `${specPath}[]`, nested);
+      type = item.includes(' ') ? `(${item})[]` : `${item}[]`;
+    } else if (schema.type === 'object') {
+      type = schema.properties
+        ? `{ ${this.interfaceBody(schema, specPath, nested).map(l => l.trim()).join(' ')} }`
+        : 'Record<string, unknown>';
+    } else if (schema.type === 'string') {
+      type = 'string';
+    } else if (schema.type === 'integer' || schema.type === 'number') {
+      type = 'number';
+    } else if (schema.type === 'boolean') {
+      type = 'boolean';
+    } else {
+      type = 'unknown';
+    }
+
+    return schema.nullable ? `${type} | null` : type;
+  }
+
+  private refName(ref: string): string {
+    const name = ref.split('/').pop()!;
+    return TYPE_NAMES[name] ?? name;
+  }
+}
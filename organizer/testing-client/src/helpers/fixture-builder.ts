@@ -0,0 +1,73 @@
+/**
+ * Builds TestFixture objects whose expected values are derived from the
+ * reference engine, and writes them to disk in the fixtures/ file format.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CalculationRequest, CalculationResponse } from '../types/api';
+import { TestFixture, ExpectedResult, FixtureCategory, FixtureComplexity } from '../types/fixtures';
+import { calculate, ReferenceEngineOptions } from './pension-math';
+
+/** Requests with at least this many mutations are classified as complex. */
+const COMPLEX_MUTATION_COUNT = 5;
+
+export interface FixtureMetadata {
+  id: string;
+  name: string;
+  description: string;
+  points: number;
+  category: FixtureCategory;
+  complexity?: FixtureComplexity;
+}
+
+/**
+ * Build a complete fixture for a request, computing the expected result with the reference engine.
+ */
+export function buildFixture(
+  metadata: FixtureMetadata,
+  request: CalculationRequest,
+  options: ReferenceEngineOptions = {},
+): TestFixture {
+  return {
+    ...metadata,
+    complexity: metadata.complexity ?? classifyComplexity(request),
+    request,
+    expected: buildExpectedResult(calculate(request, options)),
+  };
+}
+
+/**
+ * Convert a (reference) calculation response into the fixture `expected` block.
+ */
+export function buildExpectedResult(response: CalculationResponse): ExpectedResult {
+  const result = response.calculation_result;
+  return {
+    http_status: 200,
+    calculation_outcome: response.calculation_metadata.calculation_outcome,
+    message_count: result.messages.length,
+    messages: result.messages.map(m => ({ level: m.level, code: m.code })),
+    end_situation: result.end_situation.situation,
+    end_situation_mutation_id: result.end_situation.mutation_id,
+    end_situation_mutation_index: result.end_situation.mutation_index,
+    end_situation_actual_at: result.end_situation.actual_at,
+    mutations_processed_count: result.mutations.length,
+  };
+}
+
+/**
+ * Classify a request for performance test categorization by its mutation count.
+ */
+export function classifyComplexity(request: CalculationRequest): FixtureComplexity {
+  return request.calculation_instructions.mutations.length >= COMPLEX_MUTATION_COUNT ? 'complex' : 'simple';
+}
+
+/**
+ * Write a fixture as pretty-printed JSON. Returns the path written.
+ */
+export function writeFixture(fixture: TestFixture, dir: string, fileName: string): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, fileName);
+  fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2) + '\n');
+  return filePath;
+}
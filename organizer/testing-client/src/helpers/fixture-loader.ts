@@ -5,6 +5,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { TestFixture } from '../types/fixtures';
+import { checkFixtureShape } from '../validation/fixture-linter';
 
 const FIXTURES_DIR = path.join(__dirname, '..', '..', 'fixtures');
 
@@ -13,6 +14,7 @@ let fixtureCache: TestFixture[] | null = null;
 
 /**
  * Load all fixtures from the fixtures directory (cached after first call).
+ * Throws if a fixture does not have the TestFixture shape.
  */
 export function loadAllFixtures(): TestFixture[] {
   if (fixtureCache) return fixtureCache;
@@ -23,7 +25,12 @@ export function loadAllFixtures(): TestFixture[] {
 
   fixtureCache = files.map(f => {
     const content = fs.readFileSync(path.join(FIXTURES_DIR, f), 'utf-8');
-    return JSON.parse(content) as TestFixture;
+    const fixture: unknown = JSON.parse(content);
+    const problems = checkFixtureShape(fixture);
+    if (problems.length > 0) {
+      throw new Error(`Invalid fixture ${f} (run npm run lint-fixtures):\n  ${problems.join('\n  ')}`);
+    }
+    return fixture as TestFixture;
   });
 
   return fixtureCache;
@@ -1,8 +1,18 @@
 /**
- * HTTP client wrapper for making requests to the target API.
- * Uses axios with connection pooling for performance.
+ * HTTP clients for making requests to a target API.
+ *
+ * Each TargetClient owns its connections (a keep-alive agent for HTTP/1.1, one
+ * session for HTTP/2 cleartext), timeout and request hooks, so clients for several
+ * targets can be used side by side and torn down independently. Suites receive
+ * their client from the runner instead of sharing a module-level one.
+ *
+ * Clients offer gzip by default and decompress responses themselves, so the encoded
+ * (on the wire) and decoded body sizes are both known.
  */
 
+import * as http from 'http';
+import * as http2 from 'http2';
+import * as zlib from 'zlib';
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { CalculationRequest, CalculationResponse } from '../types/api';
 
@@ -11,80 +21,271 @@ export interface RequestResult {
   body: CalculationResponse | null;
   rawBody: string;
   elapsedMs: number;
+  /** Size of the JSON request body. */
+  requestBytes: number;
+  /** Size of the decoded response body. */
+  responseBytes: number;
+  /** Size of the response body as received (equals responseBytes when not compressed). */
+  encodedResponseBytes: number;
+  /** Content-Encoding of the response, or null when it was not compressed. */
+  contentEncoding: string | null;
   error?: string;
 }
 
-let client: AxiosInstance | null = null;
+export type HttpProtocol = 'http1' | 'h2c';
 
-export function createHttpClient(baseUrl: string): AxiosInstance {
-  client = axios.create({
+/** Accept-Encoding offered to the target. */
+export type ResponseEncoding = 'identity' | 'gzip' | 'br';
+
+export interface TargetClientOptions {
+  /** HTTP/1.1 keep-alive (default) or HTTP/2 cleartext with prior knowledge. */
+  protocol?: HttpProtocol;
+  /** Default: gzip. */
+  encoding?: ResponseEncoding;
+  /** Default: 30 seconds. */
+  timeoutMs?: number;
+  /** Connection limit of the HTTP/1.1 agent. Default: 100. */
+  maxSockets?: number;
+}
+
+/** Called after each request a client sends, with its result. */
+export type RequestHook = (request: CalculationRequest, result: RequestResult) => void;
+
+/**
+ * Sends calculation requests to one target.
+ */
+export interface TargetClient {
+  readonly baseUrl: string;
+  readonly protocol: HttpProtocol;
+  readonly encoding: ResponseEncoding;
+  send(request: CalculationRequest): Promise<RequestResult>;
+  /** Register a hook called after every request. Returns a function that removes it. */
+  onRequest(hook: RequestHook): () => void;
+  /** Close the client's connections. */
+  close(): void;
+}
+
+/** How a client moves requests over the wire. */
+interface Transport {
+  send(request: CalculationRequest): Promise<RequestResult>;
+  close(): void;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_SOCKETS = 100;
+
+/**
+ * Create a client for the target at baseUrl.
+ */
+export function createTargetClient(baseUrl: string, options: TargetClientOptions = {}): TargetClient {
+  const protocol = options.protocol ?? 'http1';
+  const encoding = options.encoding ?? 'gzip';
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const transport = protocol === 'http1'
+    ? createHttp1Transport(baseUrl, encoding, timeoutMs, options.maxSockets ?? DEFAULT_MAX_SOCKETS)
+    : createH2cTransport(baseUrl, encoding, timeoutMs);
+  const hooks = new Set<RequestHook>();
+
+  return {
+    baseUrl: baseUrl.replace(/\/$/, ''),
+    protocol,
+    encoding,
+    send: async request => {
+      const result = await transport.send(request);
+      hooks.forEach(hook => hook(request, result));
+      return result;
+    },
+    onRequest: hook => {
+      hooks.add(hook);
+      return () => hooks.delete(hook);
+    },
+    close: () => transport.close(),
+  };
+}
+
+// ============ HTTP/1.1 ============
+
+function createHttp1Transport(
+  baseUrl: string,
+  encoding: ResponseEncoding,
+  timeoutMs: number,
+  maxSockets: number,
+): Transport {
+  // Keep connections alive for performance
+  const agent = new http.Agent({ keepAlive: true, maxSockets });
+  const axiosClient = axios.create({
     baseURL: baseUrl,
-    timeout: 30000,
+    timeout: timeoutMs,
     headers: {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
+      'Accept-Encoding': encoding,
     },
-    // Keep connections alive for performance
-    httpAgent: new (require('http').Agent)({ keepAlive: true, maxSockets: 100 }),
+    // Bodies are decoded in buildResult to measure their encoded size
+    decompress: false,
+    responseType: 'arraybuffer',
+    httpAgent: agent,
     validateStatus: () => true, // Don't throw on non-2xx status
   });
-  return client;
-}
 
-export function getHttpClient(): AxiosInstance {
-  if (!client) {
-    throw new Error('HTTP client not initialized. Call createHttpClient() first.');
-  }
-  return client;
+  return {
+    send: request => sendHttp1Request(axiosClient, request),
+    close: () => agent.destroy(),
+  };
 }
 
 /**
  * Send a calculation request and measure response time.
  */
-export async function sendCalculationRequest(
-  request: CalculationRequest,
-  httpClient?: AxiosInstance,
-): Promise<RequestResult> {
-  const c = httpClient || getHttpClient();
+async function sendHttp1Request(axiosClient: AxiosInstance, request: CalculationRequest): Promise<RequestResult> {
+  const json = JSON.stringify(request);
+  const requestBytes = Buffer.byteLength(json);
 
   const start = process.hrtime.bigint();
 
   try {
-    const response: AxiosResponse = await c.post('/calculation-requests', request);
-    const elapsed = process.hrtime.bigint() - start;
-    const elapsedMs = Number(elapsed) / 1_000_000;
-
-    let body: CalculationResponse | null = null;
-    let rawBody: string;
-
-    if (typeof response.data === 'string') {
-      rawBody = response.data;
-      try {
-        body = JSON.parse(response.data);
-      } catch {
-        // Not valid JSON
-      }
-    } else {
-      body = response.data as CalculationResponse;
-      rawBody = JSON.stringify(response.data);
+    const response: AxiosResponse<Buffer> = await axiosClient.post('/calculation-requests', json);
+    const elapsedMs = Number(process.hrtime.bigint() - start) / 1_000_000;
+    const contentEncoding = response.headers['content-encoding'] || null;
+    return buildResult(response.status, Buffer.from(response.data), contentEncoding, requestBytes, elapsedMs);
+  } catch (err) {
+    return failedResult(requestBytes, Number(process.hrtime.bigint() - start) / 1_000_000, err as Error);
+  }
+}
+
+// ============ HTTP/2 cleartext ============
+
+function createH2cTransport(baseUrl: string, encoding: ResponseEncoding, timeoutMs: number): Transport {
+  // One session multiplexes all streams; it is reopened if the target closes it
+  let session: http2.ClientHttp2Session | null = null;
+  const connect = () => {
+    if (!session || session.closed || session.destroyed) {
+      session = http2.connect(baseUrl);
+      // Stream errors are reported per request; keep session errors from being unhandled
+      session.on('error', () => undefined);
     }
+    return session;
+  };
 
-    return {
-      status: response.status,
-      body,
-      rawBody,
-      elapsedMs,
-    };
-  } catch (err) {
-    const elapsed = process.hrtime.bigint() - start;
-    const elapsedMs = Number(elapsed) / 1_000_000;
-
-    return {
-      status: 0,
-      body: null,
-      rawBody: '',
-      elapsedMs,
-      error: (err as Error).message,
-    };
+  return {
+    send: request => sendH2Request(connect(), request, encoding, timeoutMs),
+    close: () => session?.close(),
+  };
+}
+
+function sendH2Request(
+  session: http2.ClientHttp2Session,
+  request: CalculationRequest,
+  encoding: ResponseEncoding,
+  timeoutMs: number,
+): Promise<RequestResult> {
+  const json = JSON.stringify(request);
+  const requestBytes = Buffer.byteLength(json);
+  const start = process.hrtime.bigint();
+  const elapsedMs = () => Number(process.hrtime.bigint() - start) / 1_000_000;
+
+  return new Promise(resolve => {
+    const fail = (err: Error) => resolve(failedResult(requestBytes, elapsedMs(), err));
+    try {
+      const stream = session.request({
+        ':method': 'POST',
+        ':path': '/calculation-requests',
+        'content-type': 'application/json',
+        'content-length': requestBytes,
+        'accept': 'application/json',
+        'accept-encoding': encoding,
+      });
+
+      let status = 0;
+      let contentEncoding: string | null = null;
+      const chunks: Buffer[] = [];
+
+      stream.setTimeout(timeoutMs, () => stream.close(http2.constants.NGHTTP2_CANCEL));
+      stream.on('response', headers => {
+        status = Number(headers[':status']);
+        contentEncoding = (headers['content-encoding'] as string | undefined) || null;
+      });
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => {
+        try {
+          resolve(buildResult(status, Buffer.concat(chunks), contentEncoding, requestBytes, elapsedMs()));
+        } catch (err) {
+          fail(err as Error);
+        }
+      });
+      stream.on('error', fail);
+      stream.on('close', () => {
+        if (status === 0) fail(new Error(`HTTP/2 stream closed without a response (code ${stream.rstCode})`));
+      });
+      stream.end(json);
+    } catch (err) {
+      // Session already closed or destroyed
+      fail(err as Error);
+    }
+  });
+}
+
+// ============ Responses ============
+
+function buildResult(
+  status: number,
+  encoded: Buffer,
+  contentEncoding: string | null,
+  requestBytes: number,
+  elapsedMs: number,
+): RequestResult {
+  const rawBody = decodeBody(encoded, contentEncoding).toString('utf-8');
+
+  let body: CalculationResponse | null = null;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    // Not valid JSON
+  }
+
+  return {
+    status,
+    body,
+    rawBody,
+    elapsedMs,
+    requestBytes,
+    responseBytes: Buffer.byteLength(rawBody),
+    encodedResponseBytes: encoded.length,
+    contentEncoding,
+  };
+}
+
+function failedResult(requestBytes: number, elapsedMs: number, err: Error): RequestResult {
+  return {
+    status: 0,
+    body: null,
+    rawBody: '',
+    elapsedMs,
+    requestBytes,
+    responseBytes: 0,
+    encodedResponseBytes: 0,
+    contentEncoding: null,
+    error: err.message,
+  };
+}
+
+/**
+ * Decode a response body by its Content-Encoding. Throws on an encoding the body
+ * does not match, which is reported as a failed request.
+ */
+function decodeBody(data: Buffer, contentEncoding: string | null): Buffer {
+  switch (contentEncoding?.toLowerCase()) {
+    case undefined:
+    case 'identity':
+      return data;
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.gunzipSync(data);
+    case 'deflate':
+      return zlib.inflateSync(data);
+    case 'br':
+      return zlib.brotliDecompressSync(data);
+    default:
+      throw new Error(`Unsupported Content-Encoding "${contentEncoding}"`);
   }
 }
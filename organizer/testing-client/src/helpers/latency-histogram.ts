@@ -0,0 +1,93 @@
+/**
+ * HDR histogram recording for latency measurements.
+ *
+ * Latencies are recorded in microseconds with 3 significant digits, so every
+ * percentile up to p99.99 is accurate to 0.1% without keeping raw samples.
+ * Histograms export to compressed base64 strings (stored in LatencyStats), and merge
+ * across rounds in memory or, decoded from those strings, across result files.
+ */
+
+import * as hdr from 'hdr-histogram-js';
+import { LatencyStats } from '../types/results';
+
+export type LatencyHistogram = hdr.Histogram;
+
+const SIGNIFICANT_DIGITS = 3;
+
+/**
+ * Create an empty latency histogram.
+ */
+export function createLatencyHistogram(): LatencyHistogram {
+  return hdr.build({ numberOfSignificantValueDigits: SIGNIFICANT_DIGITS });
+}
+
+/**
+ * Record one latency in milliseconds (sub-microsecond values count as 1µs).
+ */
+export function recordLatency(histogram: LatencyHistogram, ms: number): void {
+  histogram.recordValue(Math.max(1, Math.round(ms * 1000)));
+}
+
+/**
+ * Merge histograms into a new one; the inputs are left unchanged. Encoded histograms
+ * (LatencyStats.histogram, e.g. from earlier result files) are decoded first.
+ */
+export function mergeHistograms(histograms: (LatencyHistogram | string)[]): LatencyHistogram {
+  const merged = createLatencyHistogram();
+  for (const histogram of histograms) {
+    merged.add(typeof histogram === 'string' ? decodeLatencyHistogram(histogram) : histogram);
+  }
+  return merged;
+}
+
+/**
+ * Export a histogram as a compressed base64 string.
+ */
+export function encodeLatencyHistogram(histogram: LatencyHistogram): string {
+  return hdr.encodeIntoCompressedBase64(histogram);
+}
+
+/**
+ * Decode a histogram exported by encodeLatencyHistogram (e.g. from LatencyStats.histogram
+ * in an earlier result file).
+ */
+export function decodeLatencyHistogram(encoded: string): LatencyHistogram {
+  return hdr.decodeFromCompressedBase64(encoded);
+}
+
+/**
+ * Summarize a histogram as LatencyStats, including the encoded histogram itself.
+ */
+export function latencyStatsFromHistogram(histogram: LatencyHistogram): LatencyStats {
+  if (histogram.totalCount === 0) {
+    return {
+      mean_ms: 0,
+      median_ms: 0,
+      p75_ms: 0,
+      p90_ms: 0,
+      p95_ms: 0,
+      p99_ms: 0,
+      p99_9_ms: 0,
+      p99_99_ms: 0,
+      min_ms: 0,
+      max_ms: 0,
+      sample_count: 0,
+    };
+  }
+
+  const at = (p: number) => histogram.getValueAtPercentile(p) / 1000;
+  return {
+    mean_ms: histogram.mean / 1000,
+    median_ms: at(50),
+    p75_ms: at(75),
+    p90_ms: at(90),
+    p95_ms: at(95),
+    p99_ms: at(99),
+    p99_9_ms: at(99.9),
+    p99_99_ms: at(99.99),
+    min_ms: histogram.minNonZeroValue / 1000,
+    max_ms: histogram.maxValue / 1000,
+    sample_count: histogram.totalCount,
+    histogram: encodeLatencyHistogram(histogram),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Load slot: exclusive use of the machine for a load-generating phase.
+ *
+ * When the orchestrator (--teams-file) tests several teams at once, each team's
+ * testing client runs as a forked child process. Correctness runs in parallel,
+ * but performance numbers are only comparable when no other team's traffic, build
+ * or container competes for the CPU, so a child asks the orchestrator for the load
+ * slot over IPC before such a phase and gives it back afterwards. Outside the
+ * orchestrator there is nobody to ask and the phase runs immediately.
+ */
+
+export type LoadSlotMessage =
+  | { type: 'acquire-load-slot' }
+  | { type: 'load-slot-granted' }
+  | { type: 'release-load-slot' };
+
+/**
+ * Run fn while holding the load slot.
+ */
+export async function withLoadSlot<T>(fn: () => Promise<T>): Promise<T> {
+  const send = process.send?.bind(process);
+  if (!send) return fn();
+
+  console.log('\n  Waiting for the load slot (other teams are being tested)...');
+  await new Promise<void>(resolve => {
+    const onMessage = (message: LoadSlotMessage) => {
+      if (message.type !== 'load-slot-granted') return;
+      // No listener left, so the IPC channel does not keep the process alive
+      process.off('message', onMessage);
+      resolve();
+    };
+    process.on('message', onMessage);
+    send({ type: 'acquire-load-slot' } satisfies LoadSlotMessage);
+  });
+
+  try {
+    return await fn();
+  } finally {
+    send({ type: 'release-load-slot' } satisfies LoadSlotMessage);
+  }
+}
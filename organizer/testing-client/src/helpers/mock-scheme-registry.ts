@@ -0,0 +1,105 @@
+/**
+ * Mock Scheme Registry for the scheme registry bonus test (PRD FR-4.4).
+ *
+ * Serves GET /schemes/{scheme_id} → { "scheme_id": "...", "accrual_rate": 0.025 } after
+ * ~50ms, like the registry described in the README. Individual scheme IDs can be given
+ * a rate of their own or a fault instead, so one running engine can be checked against
+ * several registry behaviours without restarting it: fresh scheme IDs per check keep
+ * its cache out of the way. Every call is recorded to check how the engine looks up schemes.
+ */
+
+import * as http from 'http';
+import * as net from 'net';
+
+/**
+ * How the registry misbehaves for a scheme:
+ * - not-found: 404, as for a scheme the registry does not know
+ * - server-error: 500
+ * - timeout: never answers (the connection stays open until the registry closes)
+ * - malformed-json: 200 with a truncated JSON body
+ * - slow: the normal answer, after SLOW_DELAY_MS
+ */
+export type SchemeRegistryFault = 'not-found' | 'server-error' | 'timeout' | 'malformed-json' | 'slow';
+
+export const SCHEME_REGISTRY_FAULTS: SchemeRegistryFault[] = ['not-found', 'server-error', 'timeout', 'malformed-json', 'slow'];
+
+export interface MockSchemeRegistry {
+  readonly port: number;
+  /** Scheme IDs of the requests received, in order of arrival. */
+  readonly calls: string[];
+  /** Answer requests for schemeId with this accrual rate, or the default one again when null. */
+  setRate(schemeId: string, accrualRate: number | null): void;
+  /** Answer requests for schemeId with the fault, or normally again when null. */
+  setFault(schemeId: string, fault: SchemeRegistryFault | null): void;
+  close(): Promise<void>;
+}
+
+/** Delay of a normal answer (README: "constant ~50ms delay"). */
+const RESPONSE_DELAY_MS = 50;
+
+/** Delay of a slow answer: noticeably slow, but within the 2s timeout the README asks engines to use. */
+const SLOW_DELAY_MS = 1500;
+
+/**
+ * Start the registry on an OS-assigned port, on all interfaces so containers can reach it.
+ */
+export async function startMockSchemeRegistry(accrualRate: number): Promise<MockSchemeRegistry> {
+  const calls: string[] = [];
+  const rates = new Map<string, number>();
+  const faults = new Map<string, SchemeRegistryFault>();
+
+  const server = http.createServer((req, res) => {
+    const schemeIdMatch = req.url?.match(/\/schemes\/(.+)/);
+    const schemeId = schemeIdMatch ? decodeURIComponent(schemeIdMatch[1]) : 'UNKNOWN';
+    calls.push(schemeId);
+
+    const fault = faults.get(schemeId);
+    const answer = (status: number, body: string) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(body);
+    };
+    const registryEntry = JSON.stringify({ scheme_id: schemeId, accrual_rate: rates.get(schemeId) ?? accrualRate });
+
+    switch (fault) {
+      case 'timeout':
+        return;
+      case 'not-found':
+        setTimeout(() => answer(404, JSON.stringify({ message: `Unknown scheme ${schemeId}` })), RESPONSE_DELAY_MS);
+        return;
+      case 'server-error':
+        setTimeout(() => answer(500, JSON.stringify({ message: 'Internal Server Error' })), RESPONSE_DELAY_MS);
+        return;
+      case 'malformed-json':
+        setTimeout(() => answer(200, registryEntry.slice(0, registryEntry.length / 2)), RESPONSE_DELAY_MS);
+        return;
+      case 'slow':
+        setTimeout(() => answer(200, registryEntry), SLOW_DELAY_MS);
+        return;
+      default:
+        setTimeout(() => answer(200, registryEntry), RESPONSE_DELAY_MS);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '0.0.0.0', () => resolve());
+  });
+
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    calls,
+    setRate: (schemeId, rate) => {
+      if (rate !== null) rates.set(schemeId, rate);
+      else rates.delete(schemeId);
+    },
+    setFault: (schemeId, fault) => {
+      if (fault) faults.set(schemeId, fault);
+      else faults.delete(schemeId);
+    },
+    close: () => new Promise(resolve => {
+      // Requests held open by the timeout fault would keep the server from closing
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
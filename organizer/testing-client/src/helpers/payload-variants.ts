@@ -0,0 +1,82 @@
+/**
+ * Per-request payload variants for load generation.
+ *
+ * Sending the same fixture body over and over lets an engine that memoizes whole
+ * responses by body hash skip the calculation. A variant keeps the fixture's shape
+ * but gets fresh UUIDs, salaries jittered by up to ±10% and all dates shifted by the
+ * same random number of whole months (so eligibility and date filters behave as in the
+ * fixture). Its expected result is derived from the reference engine on demand.
+ */
+
+import { CalculationRequest } from '../types/api';
+import { TestFixture } from '../types/fixtures';
+import { Random, randomInt, randomUuid } from './request-generator';
+import { buildExpectedResult } from './fixture-builder';
+import { calculate } from './pension-math';
+
+/** Maximum relative salary change. */
+const SALARY_JITTER = 0.1;
+
+/** Maximum date shift in months, in either direction. */
+const DATE_SHIFT_MONTHS = 12;
+
+/**
+ * Shifted dates stay on days 1-28, like generated requests: month stepping from
+ * days 29-31 is not defined by the spec, so engines may legitimately differ there.
+ */
+const MAX_DAY_OF_MONTH = 28;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Create a variant of a request. Every occurrence of a UUID is replaced by the same
+ * fresh UUID, so references between mutations (e.g. dossier_id) stay consistent.
+ */
+export function createPayloadVariant(request: CalculationRequest, rng: Random): CalculationRequest {
+  const uuids = new Map<string, string>();
+  const shiftMonths = randomInt(rng, -DATE_SHIFT_MONTHS, DATE_SHIFT_MONTHS);
+
+  const vary = (value: unknown, key?: string): unknown => {
+    if (Array.isArray(value)) return value.map(v => vary(v));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, vary(v, k)]));
+    }
+    if (typeof value === 'string' && UUID_PATTERN.test(value)) {
+      const original = value.toLowerCase();
+      if (!uuids.has(original)) uuids.set(original, randomUuid(rng));
+      return uuids.get(original);
+    }
+    if (typeof value === 'string' && DATE_PATTERN.test(value)) {
+      return shiftDate(value, shiftMonths);
+    }
+    if (key === 'salary' && typeof value === 'number') {
+      const factor = 1 + (rng() * 2 - 1) * SALARY_JITTER;
+      return Math.round(value * factor * 100) / 100;
+    }
+    return value;
+  };
+
+  return vary(request) as CalculationRequest;
+}
+
+/**
+ * The fixture a variant must satisfy: the source fixture's metadata with the
+ * variant request and the reference engine's result for it.
+ */
+export function variantFixture(source: TestFixture, variant: CalculationRequest): TestFixture {
+  return {
+    ...source,
+    request: variant,
+    expected: buildExpectedResult(calculate(variant)),
+  };
+}
+
+function shiftDate(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const index = year * 12 + (month - 1) + months;
+  const shiftedYear = Math.floor(index / 12);
+  const shiftedMonth = index - shiftedYear * 12 + 1;
+  const shiftedDay = Math.min(day, MAX_DAY_OF_MONTH);
+  return `${shiftedYear}-${String(shiftedMonth).padStart(2, '0')}-${String(shiftedDay).padStart(2, '0')}`;
+}
@@ -1,8 +1,48 @@
 /**
- * Reference implementation of pension calculation math.
- * Used to compute expected values for test fixtures.
+ * Reference implementation of the pension calculation rules.
+ * The math computes expected values for test fixtures. calculate() applies the five
+ * mutation definitions on top of it, and startReferenceEngine serves calculate() over
+ * HTTP as the in-process reference engine, so the testing client can be smoke-tested
+ * against a known-good target (--self-test).
  */
 
+import * as http from 'http';
+import * as http2 from 'http2';
+import * as net from 'net';
+import { Duplex } from 'stream';
+import * as zlib from 'zlib';
+import { randomUUID } from 'crypto';
+import { compare, deepClone } from 'fast-json-patch';
+import {
+  CalculationRequest,
+  CalculationResponse,
+  CalculationMessage,
+  CalculationMutation,
+  ProcessedMutation,
+  JsonPatchOperation,
+  Situation,
+  Policy,
+  MutationDefinitionName,
+  CreateDossierProperties,
+  AddPolicyProperties,
+  ApplyIndexationProperties,
+  CalculateRetirementBenefitProperties,
+  ProjectFutureBenefitsProperties,
+  ErrorResponse,
+  MESSAGE_CODES,
+} from '../types/api';
+
+/** First bytes of an HTTP/2 connection (RFC 9113, section 3.4). */
+const HTTP2_PREFACE = 'PRI * HTTP/2.0';
+
+/** Brotli at a dynamic-content quality level (the default, 11, is meant for static assets). */
+const BROTLI_OPTIONS: zlib.BrotliOptions = { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 4 } };
+
+/** Accrual rate used when no scheme registry is involved. */
+const DEFAULT_ACCRUAL_RATE = 0.02;
+
+// ============ Calculation Math ============
+
 /**
  * Calculate the number of days between two date strings (YYYY-MM-DD).
  */
@@ -139,3 +179,538 @@ export function generateProjectionDates(
 
   return dates;
 }
+
+// ============ Reference Engine ============
+
+export interface ReferenceEngineOptions {
+  /** Accrual rate applied by calculate_retirement_benefit and project_future_benefits. */
+  accrualRate?: number;
+}
+
+/** A message produced by a mutation handler, before it is assigned its id. */
+type MessageDraft = Omit<CalculationMessage, 'id'>;
+
+/**
+ * A mutation handler validates and applies one mutation definition.
+ * It mutates the (already cloned) situation in place and returns the messages
+ * it produced. Any CRITICAL message causes the engine to discard the changes.
+ */
+type MutationHandler = (
+  situation: Situation,
+  mutation: CalculationMutation,
+  options: Required<ReferenceEngineOptions>,
+) => MessageDraft[];
+
+const MUTATION_HANDLERS: Record<MutationDefinitionName, MutationHandler> = {
+  create_dossier: createDossier,
+  add_policy: addPolicy,
+  apply_indexation: applyIndexationMutation,
+  calculate_retirement_benefit: calculateRetirementBenefitMutation,
+  project_future_benefits: projectFutureBenefits,
+};
+
+/**
+ * Process a calculation request and build the full API response.
+ *
+ * Mutations are applied in array order. Processing halts after the first
+ * mutation that produces a CRITICAL message; that mutation is still listed
+ * in the response, but the end_situation is the state before it.
+ */
+export function calculate(
+  request: CalculationRequest,
+  options: ReferenceEngineOptions = {},
+): CalculationResponse {
+  const resolvedOptions: Required<ReferenceEngineOptions> = {
+    accrualRate: options.accrualRate ?? DEFAULT_ACCRUAL_RATE,
+  };
+
+  const startedAt = new Date();
+  const start = process.hrtime.bigint();
+
+  const mutations = request.calculation_instructions.mutations;
+  const messages: CalculationMessage[] = [];
+  const processed: ProcessedMutation[] = [];
+  let situation: Situation = { dossier: null };
+  let lastAppliedIndex = -1;
+
+  for (let i = 0; i < mutations.length; i++) {
+    const mutation = mutations[i];
+    const draft = deepClone(situation) as Situation;
+    const drafts = applyMutation(draft, mutation, resolvedOptions);
+
+    const messageIndexes = drafts.map(m => {
+      const id = messages.length;
+      messages.push({ id, ...m });
+      return id;
+    });
+
+    const failed = drafts.some(m => m.level === 'CRITICAL');
+    const after = failed ? situation : draft;
+
+    processed.push({
+      mutation,
+      forward_patch_to_situation_after_this_mutation: compare(situation, after) as JsonPatchOperation[],
+      backward_patch_to_previous_situation: compare(after, situation) as JsonPatchOperation[],
+      calculation_message_indexes: messageIndexes,
+    });
+
+    if (failed) break;
+
+    situation = after;
+    lastAppliedIndex = i;
+  }
+
+  // If no mutation was applied, the end situation refers to the first mutation
+  const endIndex = Math.max(lastAppliedIndex, 0);
+  const completedAt = new Date();
+  const durationMs = Number(process.hrtime.bigint() - start) / 1_000_000;
+
+  return {
+    calculation_metadata: {
+      calculation_id: randomUUID(),
+      tenant_id: request.tenant_id,
+      calculation_started_at: startedAt.toISOString(),
+      calculation_completed_at: completedAt.toISOString(),
+      calculation_duration_ms: Math.round(durationMs),
+      calculation_outcome: messages.some(m => m.level === 'CRITICAL') ? 'FAILURE' : 'SUCCESS',
+    },
+    calculation_result: {
+      messages,
+      mutations: processed,
+      end_situation: {
+        mutation_id: mutations[endIndex].mutation_id,
+        mutation_index: endIndex,
+        actual_at: mutations[endIndex].actual_at,
+        situation,
+      },
+      initial_situation: {
+        actual_at: mutations[0].actual_at,
+        situation: { dossier: null },
+      },
+    },
+  };
+}
+
+function applyMutation(
+  situation: Situation,
+  mutation: CalculationMutation,
+  options: Required<ReferenceEngineOptions>,
+): MessageDraft[] {
+  // Every mutation except create_dossier operates on an existing dossier
+  if (mutation.mutation_definition_name !== 'create_dossier' && !situation.dossier) {
+    return [critical(MESSAGE_CODES.DOSSIER_NOT_FOUND, 'No dossier in the situation')];
+  }
+
+  const handler = MUTATION_HANDLERS[mutation.mutation_definition_name];
+  return handler(situation, mutation, options);
+}
+
+// ============ Mutation Handlers ============
+
+function createDossier(situation: Situation, mutation: CalculationMutation): MessageDraft[] {
+  const props = mutation.mutation_properties as CreateDossierProperties;
+
+  if (situation.dossier) {
+    return [critical(MESSAGE_CODES.DOSSIER_ALREADY_EXISTS, 'A dossier already exists in the situation')];
+  }
+  if (!isValidDate(props.birth_date) || props.birth_date > today()) {
+    return [critical(MESSAGE_CODES.INVALID_BIRTH_DATE, `birth_date "${props.birth_date}" is not a valid past date`)];
+  }
+  if (typeof props.name !== 'string' || props.name.trim() === '') {
+    return [critical(MESSAGE_CODES.INVALID_NAME, 'name is empty or blank')];
+  }
+
+  situation.dossier = {
+    dossier_id: props.dossier_id,
+    status: 'ACTIVE',
+    retirement_date: null,
+    persons: [
+      {
+        person_id: props.person_id,
+        role: 'PARTICIPANT',
+        name: props.name,
+        birth_date: props.birth_date,
+      },
+    ],
+    policies: [],
+  };
+  return [];
+}
+
+function addPolicy(situation: Situation, mutation: CalculationMutation): MessageDraft[] {
+  const props = mutation.mutation_properties as AddPolicyProperties;
+  const dossier = situation.dossier!;
+
+  if (props.salary < 0) {
+    return [critical(MESSAGE_CODES.INVALID_SALARY, `salary must be >= 0, got ${props.salary}`)];
+  }
+  if (props.part_time_factor < 0 || props.part_time_factor > 1) {
+    return [critical(MESSAGE_CODES.INVALID_PART_TIME_FACTOR, `part_time_factor must be between 0 and 1, got ${props.part_time_factor}`)];
+  }
+
+  const messages: MessageDraft[] = [];
+  const duplicate = dossier.policies.some(
+    p => p.scheme_id === props.scheme_id && p.employment_start_date === props.employment_start_date,
+  );
+  if (duplicate) {
+    messages.push(warning(
+      MESSAGE_CODES.DUPLICATE_POLICY,
+      `A policy with scheme_id "${props.scheme_id}" and employment_start_date ${props.employment_start_date} already exists`,
+    ));
+  }
+
+  dossier.policies.push({
+    policy_id: `${dossier.dossier_id}-${dossier.policies.length + 1}`,
+    scheme_id: props.scheme_id,
+    employment_start_date: props.employment_start_date,
+    salary: props.salary,
+    part_time_factor: props.part_time_factor,
+    attainable_pension: null,
+    projections: null,
+  });
+  return messages;
+}
+
+function applyIndexationMutation(situation: Situation, mutation: CalculationMutation): MessageDraft[] {
+  const props = mutation.mutation_properties as ApplyIndexationProperties;
+  const dossier = situation.dossier!;
+
+  if (dossier.policies.length === 0) {
+    return [critical(MESSAGE_CODES.NO_POLICIES, 'Dossier has no policies')];
+  }
+
+  const matching = dossier.policies.filter(p =>
+    (props.scheme_id === undefined || p.scheme_id === props.scheme_id) &&
+    (props.effective_before === undefined || p.employment_start_date < props.effective_before)
+  );
+
+  const hasFilters = props.scheme_id !== undefined || props.effective_before !== undefined;
+  if (hasFilters && matching.length === 0) {
+    return [warning(MESSAGE_CODES.NO_MATCHING_POLICIES, 'No policies match the indexation filters')];
+  }
+
+  let clamped = false;
+  for (const policy of matching) {
+    if (policy.salary * (1 + props.percentage) < 0) {
+      clamped = true;
+    }
+    policy.salary = applyIndexation(policy.salary, props.percentage);
+  }
+
+  return clamped
+    ? [warning(MESSAGE_CODES.NEGATIVE_SALARY_CLAMPED, 'One or more salaries would be negative and were clamped to 0')]
+    : [];
+}
+
+function calculateRetirementBenefitMutation(
+  situation: Situation,
+  mutation: CalculationMutation,
+  options: Required<ReferenceEngineOptions>,
+): MessageDraft[] {
+  const props = mutation.mutation_properties as CalculateRetirementBenefitProperties;
+  const dossier = situation.dossier!;
+
+  if (dossier.policies.length === 0) {
+    return [critical(MESSAGE_CODES.NO_POLICIES, 'Dossier has no policies')];
+  }
+
+  const messages: MessageDraft[] = [];
+  for (const policy of dossier.policies) {
+    if (props.retirement_date < policy.employment_start_date) {
+      messages.push(warning(
+        MESSAGE_CODES.RETIREMENT_BEFORE_EMPLOYMENT,
+        `retirement_date is before employment_start_date of policy ${policy.policy_id}`,
+      ));
+    }
+  }
+
+  const result = calculateRetirementBenefit(
+    dossier.policies.map(toPolicyForCalc),
+    props.retirement_date,
+    options.accrualRate,
+  );
+
+  const participant = dossier.persons[0];
+  if (!isEligible(participant.birth_date, props.retirement_date, result.total_years)) {
+    messages.push(critical(
+      MESSAGE_CODES.NOT_ELIGIBLE,
+      'Participant is under 65 years old on retirement_date and has less than 40 years of service',
+    ));
+    return messages;
+  }
+
+  dossier.status = 'RETIRED';
+  dossier.retirement_date = props.retirement_date;
+  for (const policy of dossier.policies) {
+    policy.attainable_pension = result.policy_pensions.get(policy.policy_id) ?? 0;
+  }
+  return messages;
+}
+
+function projectFutureBenefits(
+  situation: Situation,
+  mutation: CalculationMutation,
+  options: Required<ReferenceEngineOptions>,
+): MessageDraft[] {
+  const props = mutation.mutation_properties as ProjectFutureBenefitsProperties;
+  const dossier = situation.dossier!;
+
+  if (dossier.policies.length === 0) {
+    return [critical(MESSAGE_CODES.NO_POLICIES, 'Dossier has no policies')];
+  }
+  if (props.projection_end_date <= props.projection_start_date) {
+    return [critical(MESSAGE_CODES.INVALID_DATE_RANGE, 'projection_end_date must be after projection_start_date')];
+  }
+
+  const messages: MessageDraft[] = [];
+  if (dossier.policies.some(p => props.projection_start_date < p.employment_start_date)) {
+    messages.push(warning(
+      MESSAGE_CODES.PROJECTION_BEFORE_EMPLOYMENT,
+      'projection_start_date is before the employment_start_date of one or more policies',
+    ));
+  }
+
+  const policiesForCalc = dossier.policies.map(toPolicyForCalc);
+  const dates = generateProjectionDates(
+    props.projection_start_date,
+    props.projection_end_date,
+    props.projection_interval_months,
+  );
+
+  for (const policy of dossier.policies) {
+    policy.projections = [];
+  }
+  for (const date of dates) {
+    const result = calculateRetirementBenefit(policiesForCalc, date, options.accrualRate);
+    for (const policy of dossier.policies) {
+      policy.projections!.push({
+        date,
+        projected_pension: result.policy_pensions.get(policy.policy_id) ?? 0,
+      });
+    }
+  }
+  return messages;
+}
+
+// ============ Helpers ============
+
+function critical(code: string, message: string): MessageDraft {
+  return { level: 'CRITICAL', code, message };
+}
+
+function warning(code: string, message: string): MessageDraft {
+  return { level: 'WARNING', code, message };
+}
+
+function toPolicyForCalc(policy: Policy): PolicyForCalc {
+  return {
+    policy_id: policy.policy_id,
+    scheme_id: policy.scheme_id,
+    employment_start_date: policy.employment_start_date,
+    salary: policy.salary,
+    part_time_factor: policy.part_time_factor,
+  };
+}
+
+function isValidDate(value: unknown): boolean {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(value + 'T00:00:00Z');
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+// ============ HTTP Server ============
+
+export interface ReferenceEngineServer {
+  /** Base URL of the running engine, e.g. http://127.0.0.1:54321 */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the reference engine as an HTTP server serving POST /calculation-requests.
+ * Listens on 127.0.0.1 and an OS-assigned port unless one is given.
+ */
+export async function startReferenceEngine(
+  port: number = 0,
+  options: ReferenceEngineOptions = {},
+): Promise<ReferenceEngineServer> {
+  const handler = (
+    req: http.IncomingMessage | http2.Http2ServerRequest,
+    res: http.ServerResponse | http2.Http2ServerResponse,
+  ) => {
+    // Compress responses when the client accepts it, like a typical production server
+    const encoding = chooseEncoding(String(req.headers['accept-encoding'] ?? ''));
+    const sendJson = (status: number, body: CalculationResponse | ErrorResponse) => writeJson(res, status, body, encoding);
+
+    if (req.method !== 'POST' || req.url !== '/calculation-requests') {
+      sendJson(404, { status: 404, message: `No route for ${req.method} ${req.url}` });
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      let request: unknown;
+      try {
+        request = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+      } catch {
+        sendJson(400, { status: 400, message: 'Request body is not valid JSON' });
+        return;
+      }
+
+      const problem = findRequestProblem(request);
+      if (problem) {
+        sendJson(400, { status: 400, message: problem });
+        return;
+      }
+
+      try {
+        sendJson(200, calculate(request as CalculationRequest, options));
+      } catch (err) {
+        sendJson(500, { status: 500, message: (err as Error).message });
+      }
+    });
+  };
+
+  // HTTP/1.1 and h2c (prior knowledge) share the port: connections starting with
+  // the HTTP/2 preface are handed to the HTTP/2 server
+  const http1Server = http.createServer(handler);
+  const http2Server = http2.createServer(handler);
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.once('data', chunk => {
+      socket.pause();
+      if (chunk.toString('latin1', 0, HTTP2_PREFACE.length) === HTTP2_PREFACE) {
+        // The JS stream writes HTTP/2 frames separately; don't let Nagle hold them back
+        socket.setNoDelay(true);
+        http2Server.emit('connection', socketStream(socket, chunk));
+      } else {
+        socket.unshift(chunk);
+        http1Server.emit('connection', socket);
+        socket.resume();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve());
+  });
+
+  const address = server.address() as net.AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${address.port}`,
+    close: () => new Promise<void>(resolve => {
+      // Keep-alive sockets from the testing client would otherwise hold the server open
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    }),
+  };
+}
+
+/**
+ * Wrap a socket whose first chunk has already been read in a plain Duplex.
+ * The HTTP/2 server reads a net.Socket's handle directly and would miss data put
+ * back with unshift(); a stream without a handle is read through its JS interface.
+ */
+function socketStream(socket: net.Socket, head: Buffer): Duplex {
+  const stream = new Duplex({
+    read: () => socket.resume(),
+    write: (chunk, encoding, callback) => socket.write(chunk, encoding, callback),
+    final: callback => socket.end(callback),
+    destroy: (err, callback) => {
+      socket.destroy();
+      callback(err);
+    },
+  });
+  stream.push(head);
+  socket.on('data', chunk => {
+    if (!stream.push(chunk)) socket.pause();
+  });
+  socket.on('end', () => stream.push(null));
+  socket.on('close', () => stream.destroy());
+  return stream;
+}
+
+/**
+ * Structural checks for requests that cannot be processed at all (HTTP 400).
+ * Returns a description of the first problem found, or null.
+ */
+function findRequestProblem(request: unknown): string | null {
+  if (typeof request !== 'object' || request === null) {
+    return 'Request body must be a JSON object';
+  }
+  const body = request as Partial<CalculationRequest>;
+  if (typeof body.tenant_id !== 'string' || body.tenant_id === '') {
+    return 'tenant_id is required';
+  }
+  const mutations = body.calculation_instructions?.mutations;
+  if (!Array.isArray(mutations) || mutations.length === 0) {
+    return 'calculation_instructions.mutations must be a non-empty array';
+  }
+  for (let i = 0; i < mutations.length; i++) {
+    const mutation = mutations[i];
+    if (typeof mutation !== 'object' || mutation === null) {
+      return `mutations[${i}] must be an object`;
+    }
+    if (!(mutation.mutation_definition_name in MUTATION_HANDLERS)) {
+      return `mutations[${i}].mutation_definition_name "${mutation.mutation_definition_name}" is not supported`;
+    }
+    if (typeof mutation.mutation_properties !== 'object' || mutation.mutation_properties === null) {
+      return `mutations[${i}].mutation_properties must be an object`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Pick the response encoding from Accept-Encoding: the one with the highest q-value,
+ * brotli over gzip at equal q-values. q=0 refuses an encoding; `*` stands for the
+ * encodings not listed. Null (identity) when neither is acceptable.
+ */
+function chooseEncoding(acceptEncoding: string): 'br' | 'gzip' | null {
+  const qValues = new Map<string, number>();
+  for (const entry of acceptEncoding.split(',')) {
+    const [coding, ...params] = entry.split(';').map(part => part.trim().toLowerCase());
+    if (!coding) continue;
+    const q = params.find(param => param.startsWith('q='));
+    const value = q ? parseFloat(q.slice(2)) : 1;
+    qValues.set(coding, isNaN(value) ? 0 : value);
+  }
+
+  let chosen: 'br' | 'gzip' | null = null;
+  let chosenQ = 0;
+  for (const encoding of ['br', 'gzip'] as const) {
+    const q = qValues.get(encoding) ?? qValues.get('*') ?? 0;
+    if (q > chosenQ) {
+      chosen = encoding;
+      chosenQ = q;
+    }
+  }
+  return chosen;
+}
+
+function writeJson(
+  res: http.ServerResponse | http2.Http2ServerResponse,
+  status: number,
+  body: CalculationResponse | ErrorResponse,
+  encoding: 'br' | 'gzip' | null,
+): void {
+  const json = Buffer.from(JSON.stringify(body));
+  const data = encoding === 'br' ? zlib.brotliCompressSync(json, BROTLI_OPTIONS)
+    : encoding === 'gzip' ? zlib.gzipSync(json)
+    : json;
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': data.length,
+    ...(encoding ? { 'Content-Encoding': encoding } : {}),
+  });
+  res.end(data);
+}
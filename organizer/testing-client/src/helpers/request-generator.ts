@@ -0,0 +1,187 @@
+/**
+ * Seeded generator for random-but-valid calculation requests.
+ *
+ * Every generated mutation satisfies its JSON Schema in mutation-definitions/.
+ * Values are chosen to stay clear of edge cases the specification leaves open
+ * (e.g. retiring within days of the 65th birthday), so any difference from the
+ * reference engine points at a real bug rather than an interpretation.
+ */
+
+import { CalculationRequest, CalculationMutation, DossierMutation, AddPolicyProperties } from '../types/api';
+import { addMonths } from './pension-math';
+
+/** A pseudo-random number generator returning values in [0, 1). */
+export type Random = () => number;
+
+const SCHEME_IDS = ['SCHEME-A', 'SCHEME-B', 'SCHEME-C'];
+const PART_TIME_FACTORS = [1.0, 1.0, 0.8, 0.6, 0.5];
+const PROJECTION_INTERVALS = [1, 3, 6, 12];
+
+/**
+ * Create a deterministic PRNG (mulberry32) so a run can be reproduced from its seed.
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Random integer in [min, max] (inclusive). */
+export function randomInt(rng: Random, min: number, max: number): number {
+  return min + Math.floor(rng() * (max - min + 1));
+}
+
+export function pick<T>(rng: Random, items: readonly T[]): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+/** Random UUID v4 drawn from the given PRNG. */
+export function randomUuid(rng: Random): string {
+  const hex = Array.from({ length: 32 }, () => randomInt(rng, 0, 15).toString(16));
+  hex[12] = '4';
+  hex[16] = (8 + randomInt(rng, 0, 3)).toString(16);
+  const s = hex.join('');
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+}
+
+function randomDate(rng: Random, fromYear: number, toYear: number): string {
+  const year = randomInt(rng, fromYear, toYear);
+  const month = randomInt(rng, 1, 12);
+  const day = randomInt(rng, 1, 28);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function maxDate(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+function minDate(a: string, b: string): string {
+  return a < b ? a : b;
+}
+
+/**
+ * Generate a random calculation request: usually a create_dossier followed by a
+ * mix of add_policy, apply_indexation and project_future_benefits, optionally
+ * ending with calculate_retirement_benefit.
+ */
+export function generateRandomRequest(rng: Random): CalculationRequest {
+  const dossierId = randomUuid(rng);
+  const birthDate = randomDate(rng, 1945, 1990);
+  let actualAt = randomDate(rng, 2015, 2020);
+
+  const mutations: CalculationMutation[] = [];
+  const policies: AddPolicyProperties[] = [];
+
+  const dossierMutation = (
+    name: DossierMutation['mutation_definition_name'],
+    properties: object,
+  ): DossierMutation => ({
+    mutation_id: randomUuid(rng),
+    mutation_definition_name: name,
+    mutation_type: 'DOSSIER',
+    actual_at: actualAt,
+    dossier_id: dossierId,
+    mutation_properties: properties as DossierMutation['mutation_properties'],
+  });
+
+  // A small share of requests omit create_dossier to exercise DOSSIER_NOT_FOUND
+  if (rng() >= 0.03) {
+    mutations.push({
+      mutation_id: randomUuid(rng),
+      mutation_definition_name: 'create_dossier',
+      mutation_type: 'DOSSIER_CREATION',
+      actual_at: actualAt,
+      mutation_properties: {
+        dossier_id: dossierId,
+        person_id: randomUuid(rng),
+        name: `Participant ${randomInt(rng, 1, 9999)}`,
+        birth_date: birthDate,
+      },
+    });
+  }
+
+  const steps = randomInt(rng, 1, 10);
+  for (let i = 0; i < steps; i++) {
+    actualAt = addMonths(actualAt, randomInt(rng, 0, 12));
+    const roll = rng();
+
+    if (roll < 0.6) {
+      mutations.push(dossierMutation('add_policy', generatePolicy(rng, birthDate, actualAt, policies)));
+    } else if (roll < 0.85) {
+      mutations.push(dossierMutation('apply_indexation', generateIndexation(rng, actualAt)));
+    } else {
+      // Projections start on or after actual_at, hence after every employment start so far
+      const start = addMonths(actualAt, randomInt(rng, 0, 24));
+      const interval = pick(rng, PROJECTION_INTERVALS);
+      mutations.push(dossierMutation('project_future_benefits', {
+        projection_start_date: start,
+        projection_end_date: addMonths(start, interval * randomInt(rng, 1, 20)),
+        projection_interval_months: interval,
+      }));
+    }
+  }
+
+  if (rng() < 0.5) {
+    // Stay at least a year away from the 65th birthday so age rounding cannot matter
+    const ageMonths = rng() < 0.3 ? randomInt(rng, 55 * 12, 63 * 12) : randomInt(rng, 66 * 12, 72 * 12);
+    const retirementDate = addMonths(birthDate, ageMonths);
+    actualAt = maxDate(actualAt, retirementDate);
+    mutations.push(dossierMutation('calculate_retirement_benefit', { retirement_date: retirementDate }));
+  }
+
+  // A request needs at least one mutation
+  if (mutations.length === 0) {
+    mutations.push(dossierMutation('add_policy', generatePolicy(rng, birthDate, actualAt, policies)));
+  }
+
+  return {
+    tenant_id: 'differential_tenant',
+    calculation_instructions: { mutations },
+  };
+}
+
+function generatePolicy(
+  rng: Random,
+  birthDate: string,
+  actualAt: string,
+  existing: AddPolicyProperties[],
+): AddPolicyProperties {
+  // Occasionally repeat an existing scheme_id + employment_start_date to trigger DUPLICATE_POLICY
+  if (existing.length > 0 && rng() < 0.1) {
+    const original = pick(rng, existing);
+    const duplicate = { ...original, salary: randomInt(rng, 20000, 120000) };
+    existing.push(duplicate);
+    return duplicate;
+  }
+
+  const earliestStart = addMonths(birthDate, 18 * 12);
+  const startYear = Number(earliestStart.slice(0, 4));
+  const endYear = Math.max(startYear, Number(actualAt.slice(0, 4)));
+  const policy: AddPolicyProperties = {
+    scheme_id: pick(rng, SCHEME_IDS),
+    employment_start_date: minDate(actualAt, maxDate(earliestStart, randomDate(rng, startYear, endYear))),
+    salary: randomInt(rng, 20000, 120000),
+    part_time_factor: pick(rng, PART_TIME_FACTORS),
+  };
+  existing.push(policy);
+  return policy;
+}
+
+function generateIndexation(rng: Random, actualAt: string): Record<string, unknown> {
+  const properties: Record<string, unknown> = {
+    // Mostly between -5% and +10%; rarely a drop large enough to clamp salaries at 0
+    percentage: rng() < 0.03 ? -1.5 : Math.round((rng() * 0.15 - 0.05) * 10000) / 10000,
+  };
+  if (rng() < 0.3) {
+    properties.scheme_id = pick(rng, SCHEME_IDS);
+  }
+  if (rng() < 0.3) {
+    properties.effective_before = randomDate(rng, 1970, Number(actualAt.slice(0, 4)));
+  }
+  return properties;
+}
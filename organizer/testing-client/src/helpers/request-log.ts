@@ -0,0 +1,38 @@
+/**
+ * JSON Lines log of every request a TargetClient sends (--request-log), for
+ * debugging a target after a run. One line per request: when it completed, its
+ * first mutation_id, status, latency, payload sizes and error, without the bodies.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TargetClient } from './http-client';
+
+/**
+ * Log the client's requests to filePath (overwritten).
+ * Returns a function that stops logging and closes the file.
+ */
+export function attachRequestLog(client: TargetClient, filePath: string): () => Promise<void> {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  // Buffered stream: a synchronous write per request would distort the load tests
+  const stream = fs.createWriteStream(filePath);
+
+  const detach = client.onRequest((request, result) => {
+    stream.write(JSON.stringify({
+      time: new Date().toISOString(),
+      target: client.baseUrl,
+      mutation_id: request.calculation_instructions.mutations[0]?.mutation_id ?? null,
+      status: result.status,
+      elapsed_ms: Math.round(result.elapsedMs * 1000) / 1000,
+      request_bytes: result.requestBytes,
+      response_bytes: result.responseBytes,
+      content_encoding: result.contentEncoding,
+      ...(result.error ? { error: result.error } : {}),
+    }) + '\n');
+  });
+
+  return () => {
+    detach();
+    return new Promise(resolve => stream.end(resolve));
+  };
+}
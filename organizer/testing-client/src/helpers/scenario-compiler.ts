@@ -0,0 +1,150 @@
+/**
+ * Compiles declarative scenario files into TestFixture objects.
+ * The expected result is always derived from the reference engine, so a
+ * scenario only describes the request and the message codes it should produce.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from 'yaml';
+import { CalculationRequest, CalculationMutation, DossierMutation } from '../types/api';
+import { TestFixture } from '../types/fixtures';
+import { Scenario, ScenarioMutation } from '../types/scenarios';
+import { calculate } from './pension-math';
+import { buildExpectedResult } from './fixture-builder';
+
+const DEFAULT_TENANT_ID = 'test_tenant';
+const DEFAULT_DOSSIER_ID = '550e8400-e29b-41d4-a716-446655440000';
+const DEFAULT_PERSON_ID = '660e8400-e29b-41d4-a716-446655440001';
+const DEFAULT_ACTUAL_AT = '2020-01-01';
+
+const DOSSIER_MUTATION_NAMES: DossierMutation['mutation_definition_name'][] = [
+  'add_policy',
+  'apply_indexation',
+  'calculate_retirement_benefit',
+  'project_future_benefits',
+];
+
+const SCENARIO_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+export interface ScenarioFile {
+  /** Path of the scenario source file. */
+  path: string;
+  /** Fixture file name the scenario compiles to, e.g. C07-full-happy-path.json */
+  fixtureFileName: string;
+  scenario: Scenario;
+}
+
+/**
+ * Load all scenario files (YAML or JSON) from a directory, sorted by file name.
+ */
+export function loadScenarios(dir: string): ScenarioFile[] {
+  return fs.readdirSync(dir)
+    .filter(f => SCENARIO_EXTENSIONS.includes(path.extname(f)))
+    .sort()
+    .map(f => ({
+      path: path.join(dir, f),
+      fixtureFileName: `${path.basename(f, path.extname(f))}.json`,
+      scenario: parse(fs.readFileSync(path.join(dir, f), 'utf-8')) as Scenario,
+    }));
+}
+
+/**
+ * Compile a scenario into a full fixture.
+ * Throws if the reference engine does not produce the scenario's expected_messages.
+ */
+export function compileScenario(scenario: Scenario): TestFixture {
+  const request = buildRequest(scenario);
+  const expected = buildExpectedResult(calculate(request));
+
+  const expectedCodes = scenario.expected_messages ?? [];
+  const actualCodes = expected.messages.map(m => m.code);
+  if (expectedCodes.join(',') !== actualCodes.join(',')) {
+    throw new Error(
+      `Scenario ${scenario.id}: expected messages [${expectedCodes.join(', ')}], ` +
+      `but the reference engine produced [${actualCodes.join(', ')}]`
+    );
+  }
+
+  return {
+    id: scenario.id,
+    name: scenario.name,
+    description: scenario.description,
+    points: scenario.points,
+    category: scenario.category,
+    ...(scenario.complexity ? { complexity: scenario.complexity } : {}),
+    request,
+    expected,
+  };
+}
+
+/**
+ * Expand a scenario into the calculation request it describes.
+ */
+export function buildRequest(scenario: Scenario): CalculationRequest {
+  const dossier = scenario.dossier;
+  const dossierId = dossier?.dossier_id ?? DEFAULT_DOSSIER_ID;
+  let actualAt = dossier?.actual_at ?? DEFAULT_ACTUAL_AT;
+
+  const mutations: CalculationMutation[] = [];
+
+  if (dossier) {
+    mutations.push({
+      mutation_id: dossier.mutation_id ?? defaultMutationId(0),
+      mutation_definition_name: 'create_dossier',
+      mutation_type: 'DOSSIER_CREATION',
+      actual_at: actualAt,
+      mutation_properties: {
+        dossier_id: dossierId,
+        person_id: dossier.person_id ?? DEFAULT_PERSON_ID,
+        name: dossier.name,
+        birth_date: dossier.birth_date,
+      },
+    });
+  }
+
+  for (const entry of scenario.mutations ?? []) {
+    const name = mutationName(scenario, entry);
+    actualAt = entry.actual_at ?? actualAt;
+    mutations.push({
+      mutation_id: entry.mutation_id ?? defaultMutationId(mutations.length),
+      mutation_definition_name: name,
+      mutation_type: 'DOSSIER',
+      actual_at: actualAt,
+      dossier_id: dossierId,
+      mutation_properties: entry[name]!,
+    });
+  }
+
+  if (mutations.length === 0) {
+    throw new Error(`Scenario ${scenario.id}: a scenario needs a dossier or at least one mutation`);
+  }
+
+  return {
+    tenant_id: scenario.tenant_id ?? DEFAULT_TENANT_ID,
+    calculation_instructions: { mutations },
+  };
+}
+
+function mutationName(scenario: Scenario, entry: ScenarioMutation): DossierMutation['mutation_definition_name'] {
+  const names = DOSSIER_MUTATION_NAMES.filter(n => entry[n] !== undefined);
+  if (names.length !== 1) {
+    throw new Error(
+      `Scenario ${scenario.id}: each mutation needs exactly one of ${DOSSIER_MUTATION_NAMES.join(', ')} ` +
+      `(got: ${Object.keys(entry).join(', ')})`
+    );
+  }
+  return names[0];
+}
+
+/**
+ * Mutation IDs default to aaaaaaaa-aaaa-…, bbbbbbbb-bbbb-…, … by position,
+ * falling back to a zero-padded index once the hex letters run out.
+ */
+function defaultMutationId(index: number): string {
+  if (index < 6) {
+    const c = 'abcdef'[index];
+    return `${c.repeat(8)}-${c.repeat(4)}-${c.repeat(4)}-${c.repeat(4)}-${c.repeat(12)}`;
+  }
+  return `00000000-0000-4000-8000-${index.toString(16).padStart(12, '0')}`;
+}
@@ -0,0 +1,145 @@
+/**
+ * Generated large-dossier stress scenarios for the scalability measurement.
+ *
+ * The fixtures top out at a handful of policies, which says little about how an
+ * engine copes with a long employment history. Two series are generated, each
+ * varying one dimension: the number of add_policy / apply_indexation mutations,
+ * and the horizon of a monthly project_future_benefits. Expected results come
+ * from the reference engine.
+ */
+
+import { CalculationRequest, CalculationMutation, DossierMutation } from '../types/api';
+import { TestFixture } from '../types/fixtures';
+import { buildFixture } from './fixture-builder';
+import { addMonths } from './pension-math';
+import { Random, randomInt, randomUuid, pick } from './request-generator';
+
+/** Policies per step of the mutation series; one indexation is added per 10 policies. */
+const MUTATION_SERIES_POLICIES = [25, 50, 100, 200, 400];
+
+/** Monthly projection horizons of the projection series (up to 40 years). */
+const PROJECTION_SERIES_MONTHS = [12, 60, 120, 240, 480];
+
+/** Dossier size the projection series projects over. */
+const PROJECTION_SERIES_POLICIES = 10;
+const PROJECTION_SERIES_INDEXATIONS = 5;
+
+/** Date every stress mutation is applied at; all employments start before it. */
+const STRESS_ACTUAL_AT = '2025-01-01';
+
+const SCHEME_IDS = ['SCHEME-A', 'SCHEME-B', 'SCHEME-C'];
+const PART_TIME_FACTORS = [1.0, 1.0, 0.8, 0.6, 0.5];
+
+export interface StressShape {
+  policies: number;
+  indexations: number;
+  /** Horizon of a monthly project_future_benefits at the end (0: none). */
+  projectionMonths: number;
+}
+
+export interface StressScenarios {
+  /** Growing mutation count, no projection. */
+  mutationSeries: TestFixture[];
+  /** Fixed dossier, growing projection horizon. */
+  projectionSeries: TestFixture[];
+}
+
+/**
+ * Generate both stress series with expected results from the reference engine.
+ */
+export function buildStressScenarios(rng: Random): StressScenarios {
+  const mutationSeries = MUTATION_SERIES_POLICIES.map(policies => {
+    const request = generateStressRequest(rng, { policies, indexations: Math.ceil(policies / 10), projectionMonths: 0 });
+    const count = request.calculation_instructions.mutations.length;
+    return stressFixture(`STRESS-M${count}`, `${count} mutations (${policies} policies)`, request);
+  });
+
+  const projectionSeries = PROJECTION_SERIES_MONTHS.map(months => {
+    const request = generateStressRequest(rng, {
+      policies: PROJECTION_SERIES_POLICIES,
+      indexations: PROJECTION_SERIES_INDEXATIONS,
+      projectionMonths: months,
+    });
+    return stressFixture(`STRESS-P${months}`, `Monthly projection over ${months} months`, request);
+  });
+
+  return { mutationSeries, projectionSeries };
+}
+
+/**
+ * Generate one dossier: create_dossier, the policies with the indexations spread
+ * evenly between them, and optionally a monthly projection.
+ * Employments start a month apart from age 18, so no two policies are duplicates.
+ */
+export function generateStressRequest(rng: Random, shape: StressShape): CalculationRequest {
+  const dossierId = randomUuid(rng);
+  const birthDate = `${randomInt(rng, 1955, 1960)}-${String(randomInt(rng, 1, 12)).padStart(2, '0')}-15`;
+  const firstEmployment = addMonths(birthDate, 18 * 12);
+
+  const dossierMutation = (
+    name: DossierMutation['mutation_definition_name'],
+    properties: object,
+  ): DossierMutation => ({
+    mutation_id: randomUuid(rng),
+    mutation_definition_name: name,
+    mutation_type: 'DOSSIER',
+    actual_at: STRESS_ACTUAL_AT,
+    dossier_id: dossierId,
+    mutation_properties: properties as DossierMutation['mutation_properties'],
+  });
+
+  const mutations: CalculationMutation[] = [{
+    mutation_id: randomUuid(rng),
+    mutation_definition_name: 'create_dossier',
+    mutation_type: 'DOSSIER_CREATION',
+    actual_at: STRESS_ACTUAL_AT,
+    mutation_properties: {
+      dossier_id: dossierId,
+      person_id: randomUuid(rng),
+      name: `Stress Participant ${randomInt(rng, 1, 9999)}`,
+      birth_date: birthDate,
+    },
+  }];
+
+  let indexations = 0;
+  for (let i = 0; i < shape.policies; i++) {
+    mutations.push(dossierMutation('add_policy', {
+      scheme_id: pick(rng, SCHEME_IDS),
+      employment_start_date: addMonths(firstEmployment, i),
+      salary: randomInt(rng, 20000, 120000),
+      part_time_factor: pick(rng, PART_TIME_FACTORS),
+    }));
+    // Spread the indexations evenly; the last one follows the last policy
+    while (indexations < Math.floor(((i + 1) * shape.indexations) / shape.policies)) {
+      indexations++;
+      mutations.push(dossierMutation('apply_indexation', {
+        percentage: Math.round((rng() * 0.05) * 10000) / 10000,
+        ...(rng() < 0.3 ? { scheme_id: pick(rng, SCHEME_IDS) } : {}),
+      }));
+    }
+  }
+
+  if (shape.projectionMonths > 0) {
+    mutations.push(dossierMutation('project_future_benefits', {
+      projection_start_date: STRESS_ACTUAL_AT,
+      projection_end_date: addMonths(STRESS_ACTUAL_AT, shape.projectionMonths),
+      projection_interval_months: 1,
+    }));
+  }
+
+  return {
+    tenant_id: 'stress_tenant',
+    calculation_instructions: { mutations },
+  };
+}
+
+function stressFixture(id: string, name: string, request: CalculationRequest): TestFixture {
+  return buildFixture({
+    id,
+    name,
+    description: 'Generated large-dossier stress scenario',
+    points: 0,
+    category: 'correctness',
+    complexity: 'complex',
+  }, request);
+}
@@ -0,0 +1,150 @@
+/**
+ * Starting team containers from --cold-start-image with dockerode, and reading
+ * their memory and CPU usage. Used by the cold start and resource tests, the scheme
+ * registry bonus test, the resource-limited performance run (--performance-container)
+ * and the soak suite; the orchestrator (--teams-file) uses waitForTarget as well.
+ */
+
+import * as net from 'net';
+import axios from 'axios';
+
+/** Resources a team container may use. Omitted limits are Docker's defaults (unlimited). */
+export interface ContainerLimits {
+  /** CPU quota (Docker NanoCpus / 1e9), e.g. 1.5. */
+  cpus?: number;
+  /** Memory limit in bytes; swap is disabled when set. */
+  memoryBytes?: number;
+  /** CPUs the container may run on (Docker --cpuset-cpus). */
+  cpuset?: string;
+}
+
+/** One reading from the Docker stats API. Fields are null when unavailable. */
+export interface ContainerStats {
+  memory_rss_bytes: number | null;
+  /** CPU use since the previous reading, relative to one core. */
+  cpu_percent: number | null;
+  /** CPU time consumed by the container since it started. */
+  cpu_time_ns: number | null;
+}
+
+const MEMORY_UNITS: Record<string, number> = { '': 1, b: 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+
+/**
+ * Create (but not start) a container of the team image with its port 8080
+ * published on hostPort.
+ */
+export async function createTeamContainer(
+  docker: any,
+  image: string,
+  hostPort: number,
+  options: { limits?: ContainerLimits; env?: string[] } = {},
+): Promise<any> {
+  const limits = options.limits ?? {};
+  return docker.createContainer({
+    Image: image,
+    ...(options.env ? { Env: options.env } : {}),
+    ExposedPorts: { '8080/tcp': {} },
+    HostConfig: {
+      PortBindings: {
+        '8080/tcp': [{ HostPort: String(hostPort) }],
+      },
+      ...(limits.cpus ? { NanoCpus: Math.round(limits.cpus * 1e9) } : {}),
+      ...(limits.memoryBytes ? { Memory: limits.memoryBytes, MemorySwap: limits.memoryBytes } : {}),
+      ...(limits.cpuset ? { CpusetCpus: limits.cpuset } : {}),
+    },
+  });
+}
+
+/**
+ * Stop and remove a container, ignoring errors (it may already be gone).
+ */
+export async function removeContainer(container: any): Promise<void> {
+  try {
+    await container.stop({ t: 1 });
+  } catch {
+    // May already be stopped
+  }
+  try {
+    await container.remove({ force: true });
+  } catch {
+    // Best effort
+  }
+}
+
+/**
+ * Find a free port by binding to port 0 (the OS picks one) then closing.
+ * This is race-free compared to random port selection.
+ */
+export function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      if (address && typeof address === 'object') {
+        const port = address.port;
+        server.close(() => resolve(port));
+      } else {
+        server.close(() => reject(new Error('Could not determine port')));
+      }
+    });
+    server.on('error', reject);
+  });
+}
+
+/**
+ * Poll a target URL until it responds with HTTP 200, or timeout.
+ */
+export async function waitForTarget(
+  targetUrl: string,
+  request: any,
+  timeoutMs: number,
+): Promise<boolean> {
+  const start = Date.now();
+  while (Date.now() - start < timeoutMs) {
+    try {
+      const response = await axios.post(`${targetUrl}/calculation-requests`, request, {
+        timeout: 2000,
+        headers: { 'Content-Type': 'application/json' },
+        validateStatus: () => true,
+      });
+      if (response.status === 200) return true;
+    } catch {
+      // Connection refused - keep polling
+    }
+    await new Promise(r => setTimeout(r, 100));
+  }
+  return false;
+}
+
+/**
+ * Take one reading from the Docker stats API.
+ * RSS is `rss` on cgroup v1 and `anon` on cgroup v2; CPU is relative to one core.
+ */
+export async function sampleContainerStats(container: any): Promise<ContainerStats> {
+  try {
+    const stats = await container.stats({ stream: false });
+    const memoryStats = stats.memory_stats?.stats ?? {};
+    const rss = memoryStats.rss ?? memoryStats.anon ?? stats.memory_stats?.usage ?? null;
+
+    const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
+    const systemDelta = stats.cpu_stats.system_cpu_usage - stats.precpu_stats.system_cpu_usage;
+    const cpus = stats.cpu_stats.online_cpus ?? stats.cpu_stats.cpu_usage.percpu_usage?.length ?? 1;
+    const cpu = systemDelta > 0 ? (cpuDelta / systemDelta) * cpus * 100 : null;
+
+    return { memory_rss_bytes: rss, cpu_percent: cpu, cpu_time_ns: stats.cpu_stats.cpu_usage.total_usage ?? null };
+  } catch {
+    // Container stopped or stats unavailable for this reading
+    return { memory_rss_bytes: null, cpu_percent: null, cpu_time_ns: null };
+  }
+}
+
+/**
+ * Parse a Docker-style memory size ("512m", "2g", bytes without a unit).
+ * Returns null when invalid.
+ */
+export function parseMemorySize(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([bkmg]?)$/);
+  if (!match) return null;
+  const bytes = Math.round(parseFloat(match[1]) * MEMORY_UNITS[match[2]]);
+  return bytes > 0 ? bytes : null;
+}
@@ -0,0 +1,116 @@
+/**
+ * Loads traffic profiles and turns them into weighted request sequences
+ * for the throughput test.
+ */
+
+import * as fs from 'fs';
+import { parse } from 'yaml';
+import { TestFixture } from '../types/fixtures';
+import { TrafficProfile, TrafficGroup } from '../types/traffic-profiles';
+
+export interface WeightedFixture {
+  fixture: TestFixture;
+  /** Name of the profile group the fixture was selected by. */
+  group: string;
+  /** Fraction of all requests, summing to 1 over the mix. */
+  share: number;
+}
+
+export interface TrafficMix {
+  fixtures: WeightedFixture[];
+  /** Groups that selected none of the available fixtures; their weight is spread over the others. */
+  emptyGroups: string[];
+}
+
+/**
+ * Load a traffic profile (YAML or JSON).
+ * Throws if the file does not have the TrafficProfile shape.
+ */
+export function loadTrafficProfile(filePath: string): TrafficProfile {
+  const profile: unknown = parse(fs.readFileSync(filePath, 'utf-8'));
+  const problems = checkProfileShape(profile);
+  if (problems.length > 0) {
+    throw new Error(`Invalid traffic profile ${filePath}:\n  ${problems.join('\n  ')}`);
+  }
+  return profile as TrafficProfile;
+}
+
+/**
+ * Select the available fixtures for each group and weight them.
+ * A fixture selected by several groups is assigned to the first one.
+ */
+export function buildTrafficMix(profile: TrafficProfile, available: TestFixture[]): TrafficMix {
+  const assigned = new Set<string>();
+  const selections = profile.groups.map(group => {
+    const fixtures = available.filter(f => !assigned.has(f.id) && selects(group, f));
+    fixtures.forEach(f => assigned.add(f.id));
+    return { group, fixtures };
+  });
+
+  const nonEmpty = selections.filter(s => s.fixtures.length > 0);
+  const totalWeight = nonEmpty.reduce((sum, s) => sum + s.group.weight, 0);
+
+  return {
+    fixtures: nonEmpty.flatMap(({ group, fixtures }) => fixtures.map(fixture => ({
+      fixture,
+      group: group.name,
+      share: group.weight / totalWeight / fixtures.length,
+    }))),
+    emptyGroups: selections.filter(s => s.fixtures.length === 0).map(s => s.group.name),
+  };
+}
+
+/**
+ * Build a request sequence of the given length whose fixture counts follow the shares.
+ * Uses smooth weighted round-robin, so heavy fixtures are interleaved with light ones
+ * rather than sent in bursts.
+ */
+export function buildRequestSequence(mix: WeightedFixture[], length: number): TestFixture[] {
+  const current = mix.map(() => 0);
+  const sequence: TestFixture[] = [];
+
+  for (let n = 0; n < length; n++) {
+    let best = 0;
+    mix.forEach((entry, i) => {
+      current[i] += entry.share;
+      if (current[i] > current[best]) best = i;
+    });
+    current[best] -= 1;
+    sequence.push(mix[best].fixture);
+  }
+
+  return sequence;
+}
+
+function selects(group: TrafficGroup, fixture: TestFixture): boolean {
+  if (group.scenarios) return group.scenarios.includes(fixture.id);
+  return fixture.complexity === group.complexity;
+}
+
+function checkProfileShape(value: unknown): string[] {
+  if (!value || typeof value !== 'object') return ['profile must be an object'];
+  const profile = value as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (typeof profile.name !== 'string') problems.push('name must be a string');
+  if (!Array.isArray(profile.groups) || profile.groups.length === 0) {
+    return [...problems, 'groups must be a non-empty list'];
+  }
+
+  profile.groups.forEach((g: Record<string, unknown>, i: number) => {
+    const where = `groups[${i}]`;
+    if (typeof g?.name !== 'string') problems.push(`${where}.name must be a string`);
+    if (typeof g?.weight !== 'number' || !(g.weight > 0)) problems.push(`${where}.weight must be a positive number`);
+    const byComplexity = g?.complexity !== undefined;
+    const byScenarios = g?.scenarios !== undefined;
+    if (byComplexity === byScenarios) {
+      problems.push(`${where} must have exactly one of complexity or scenarios`);
+    } else if (byComplexity && g.complexity !== 'simple' && g.complexity !== 'complex') {
+      problems.push(`${where}.complexity must be "simple" or "complex"`);
+    } else if (byScenarios && (!Array.isArray(g.scenarios) || g.scenarios.some(id => typeof id !== 'string'))) {
+      problems.push(`${where}.scenarios must be a list of fixture IDs`);
+    }
+  });
+
+  return problems;
+}
@@ -0,0 +1,432 @@
+/**
+ * Multi-team orchestration (--teams-file): clones, builds and tests every team in
+ * a teams.json, several at a time.
+ *
+ * Up to --parallel teams are built and checked for correctness at the same time.
+ * Phases that generate load (performance, cold start, soak) run one at a time and
+ * never overlap a build or another team's correctness run (see helpers/load-slot.ts).
+ * Each team's container is pinned to its own --team-cpus CPUs, and CPU 0 is left to
+ * the testing clients and the OS. Every team is tested by its own testing client
+ * process, which writes the team's TestResults to --results-dir and its output to
+ * <results-dir>/logs.
+ */
+
+import { ChildProcess, execFile, fork, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Config } from './config';
+import { loadFixtureById } from './helpers/fixture-loader';
+import { waitForTarget } from './helpers/team-container';
+import { createRandom, Random } from './helpers/request-generator';
+import { LoadSlotMessage } from './helpers/load-slot';
+import { loadTeamResults, generateLeaderboard, printLeaderboard, writeLeaderboardJson } from './scoring/leaderboard';
+import { TeamEntry } from './types/teams';
+
+/** CPUs not given to team containers (the testing clients and the OS run there). */
+const RESERVED_CPUS = 1;
+
+const BUILD_TIMEOUT_MS = 600_000;
+const READY_TIMEOUT_MS = 60_000;
+
+/**
+ * Time a team's testing client may run before it is killed, not counting waits for
+ * the load slot (those depend on the other teams).
+ */
+const TEST_TIMEOUT_MS = 600_000;
+
+/** Pause after one team's load phase before the next one starts, so the machine settles. */
+const LOAD_SLOT_COOLDOWN_MS = 10_000;
+
+/** Total possible score, recorded in the result files of teams that could not be tested. */
+const MAX_SCORE = 115;
+
+const TEAM_NAME_PATTERN = /^[a-z0-9][a-z0-9_.-]*$/;
+
+/**
+ * Options that belong to the orchestrator (or that it sets per team) and are not
+ * forwarded to the teams' testing clients, with whether they take a value.
+ */
+const ORCHESTRATOR_OPTIONS = new Map<string, boolean>([
+  ['--teams-file', true],
+  ['--parallel', true],
+  ['--repos-dir', true],
+  ['--team-cpus', true],
+  ['--team-memory', true],
+  ['--no-shuffle', false],
+  ['--results-dir', true],
+  ['--leaderboard', false],
+  ['--output', true],
+  ['--team', true],
+  ['--commit-sha', true],
+  ['--cold-start-image', true],
+  ['--cpuset', true],
+  ['--code-path', true],
+]);
+
+type Hold = 'none' | 'shared' | 'exclusive';
+
+/**
+ * Readers-writer lock over the machine. Builds and correctness runs hold it shared;
+ * a load phase holds it exclusively. A waiting exclusive request goes before new
+ * shared ones, so a stream of builds cannot starve it.
+ */
+class PhaseLock {
+  private sharedCount = 0;
+  private exclusiveHeld = false;
+  private lastExclusiveRelease = 0;
+  private readonly waiting: { exclusive: boolean; grant: () => void }[] = [];
+
+  constructor(private readonly cooldownMs: number) {}
+
+  acquireShared(): Promise<void> {
+    return this.enqueue(false);
+  }
+
+  releaseShared(): void {
+    this.sharedCount--;
+    this.drain();
+  }
+
+  /**
+   * Resolves once nothing else holds the lock and the cooldown after the previous
+   * exclusive holder has passed.
+   */
+  async acquireExclusive(): Promise<void> {
+    await this.enqueue(true);
+    const remainingMs = this.lastExclusiveRelease + this.cooldownMs - Date.now();
+    if (remainingMs > 0) await sleep(remainingMs);
+  }
+
+  releaseExclusive(): void {
+    this.exclusiveHeld = false;
+    this.lastExclusiveRelease = Date.now();
+    this.drain();
+  }
+
+  private enqueue(exclusive: boolean): Promise<void> {
+    return new Promise(resolve => {
+      this.waiting.push({ exclusive, grant: resolve });
+      this.drain();
+    });
+  }
+
+  private drain(): void {
+    if (this.exclusiveHeld) return;
+
+    const exclusiveIndex = this.waiting.findIndex(w => w.exclusive);
+    if (exclusiveIndex >= 0) {
+      if (this.sharedCount === 0) {
+        const [next] = this.waiting.splice(exclusiveIndex, 1);
+        this.exclusiveHeld = true;
+        next.grant();
+      }
+      return;
+    }
+
+    for (const next of this.waiting.splice(0)) {
+      this.sharedCount++;
+      next.grant();
+    }
+  }
+}
+
+/**
+ * Test every team in config.teamsFile and generate the leaderboard.
+ */
+export async function runAllTeams(config: Config): Promise<void> {
+  const teams = loadTeams(config.teamsFile!);
+  const resultsDir = config.resultsDir!;
+
+  const cpuCount = os.cpus().length;
+  const neededCpus = config.parallel * config.teamCpus + RESERVED_CPUS;
+  if (neededCpus > cpuCount) {
+    throw new Error(
+      `--parallel ${config.parallel} × --team-cpus ${config.teamCpus} needs ${neededCpus} CPUs ` +
+      `(${RESERVED_CPUS} reserved for the testing client), this machine has ${cpuCount}`
+    );
+  }
+  if (await runCommand('docker', ['info'], 'ignore') !== 0) {
+    throw new Error('Docker is not running or not accessible');
+  }
+
+  const order = config.shuffle ? shuffle(teams, createRandom(config.seed)) : teams;
+  const orderFile = path.join(resultsDir, '_execution_order.txt');
+  fs.mkdirSync(path.join(resultsDir, 'logs'), { recursive: true });
+  fs.mkdirSync(config.reposDir, { recursive: true });
+
+  console.log('=== Visma Performance Hackathon - Multi-Team Orchestrator ===');
+  console.log(`Teams: ${order.map(t => t.name).join(', ')}${config.shuffle ? ` (shuffled with seed ${config.seed})` : ''}`);
+  console.log(`Parallel: ${config.parallel} teams, each container pinned to ${config.teamCpus} CPUs with ${config.teamMemory} memory`);
+  console.log(`Results: ${resultsDir} (testing client output in ${path.join(resultsDir, 'logs')})\n`);
+
+  fs.writeFileSync(
+    orderFile,
+    `Execution order: ${order.map(t => t.name).join(' ')}\n` +
+    (config.shuffle ? `Seed: ${config.seed}\n` : '') +
+    `Started: ${new Date().toISOString()}\n`,
+  );
+
+  // Each worker owns one cpuset and tests teams from the queue until it is empty
+  const lock = new PhaseLock(LOAD_SLOT_COOLDOWN_MS);
+  const queue = [...order];
+  const workers = Array.from({ length: Math.min(config.parallel, order.length) }, async (_, i) => {
+    const cpuset = cpuRange(RESERVED_CPUS + i * config.teamCpus, config.teamCpus);
+    for (let team = queue.shift(); team; team = queue.shift()) {
+      await testTeam(config, team, cpuset, lock);
+      fs.appendFileSync(orderFile, `Team ${team.name} finished: ${new Date().toISOString()}\n`);
+    }
+  });
+  await Promise.all(workers);
+
+  await runCommand('docker', ['image', 'prune', '-f'], 'ignore');
+  fs.appendFileSync(orderFile, `Completed: ${new Date().toISOString()}\n`);
+
+  console.log('\n--- Leaderboard ---');
+  const allResults = loadTeamResults(resultsDir);
+  const leaderboard = generateLeaderboard(allResults);
+  printLeaderboard(leaderboard);
+  writeLeaderboardJson(leaderboard, allResults, resultsDir);
+}
+
+/**
+ * Read and check the teams file.
+ */
+function loadTeams(filePath: string): TeamEntry[] {
+  const teams: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(teams) || teams.length === 0) {
+    throw new Error(`No teams found in ${filePath}`);
+  }
+
+  const names = new Set<string>();
+  teams.forEach((team, i) => {
+    if (typeof team?.name !== 'string' || typeof team?.repo_url !== 'string') {
+      throw new Error(`Invalid entry at index ${i} in ${filePath} (name or repo_url missing)`);
+    }
+    if (!TEAM_NAME_PATTERN.test(team.name)) {
+      throw new Error(`Invalid team name "${team.name}" in ${filePath} (lowercase letters, digits, "-", "_" and "." only)`);
+    }
+    if (names.has(team.name)) {
+      throw new Error(`Duplicate team name "${team.name}" in ${filePath}`);
+    }
+    names.add(team.name);
+  });
+  return teams as TeamEntry[];
+}
+
+/**
+ * Clone, build, start and test one team, then remove its container and image.
+ * A team that cannot be tested gets an error-only result file (scored 0).
+ */
+async function testTeam(config: Config, team: TeamEntry, cpuset: string, lock: PhaseLock): Promise<void> {
+  const resultsDir = config.resultsDir!;
+  const resultPath = path.join(resultsDir, `team-${team.name}.json`);
+  const logPath = path.join(resultsDir, 'logs', `team-${team.name}.log`);
+  const repoDir = path.join(config.reposDir, team.name);
+  const image = `hackathon-team-${team.name}:latest`;
+  const containerName = `hackathon-team-${team.name}`;
+
+  const log = (message: string) => console.log(`  [${team.name}] ${message}`);
+  const fail = (error: string, extra: object = {}) => {
+    log(`\x1b[31m${error}\x1b[0m (see ${logPath})`);
+    fs.writeFileSync(resultPath, JSON.stringify({
+      team: team.name,
+      error,
+      ...extra,
+      total: { scored: 0, max_scoreable_by_tool: MAX_SCORE, manual_pending: 0 },
+    }, null, 2) + '\n');
+  };
+
+  const logFd = fs.openSync(logPath, 'w');
+  let hold = 'shared' as Hold;
+  await lock.acquireShared();
+
+  try {
+    log(`Cloning ${team.repo_url}...`);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+    if (await runCommand('git', ['clone', '--depth', '1', team.repo_url, repoDir], logFd) !== 0) {
+      return fail('Failed to clone repository');
+    }
+    if (!fs.existsSync(path.join(repoDir, 'Dockerfile'))) {
+      return fail('No Dockerfile found');
+    }
+
+    log('Building image (--no-cache)...');
+    const buildStart = Date.now();
+    const buildStatus = await runCommand('docker', ['build', '--no-cache', '-t', image, repoDir], logFd, BUILD_TIMEOUT_MS);
+    const buildTimeSeconds = Math.round((Date.now() - buildStart) / 1000);
+    if (buildStatus !== 0) {
+      return fail('Docker build failed', { build_time_seconds: buildTimeSeconds });
+    }
+
+    // Docker picks a free host port for the container's 8080
+    await runCommand('docker', ['rm', '-f', containerName], 'ignore');
+    const runStatus = await runCommand('docker', [
+      'run', '-d',
+      '--name', containerName,
+      '--cpuset-cpus', cpuset,
+      '--memory', config.teamMemory,
+      '-p', '8080',
+      image,
+    ], logFd);
+    const port = runStatus === 0 ? await containerPort(containerName) : null;
+    const ready = port !== null && await waitForTarget(`http://localhost:${port}`, loadFixtureById('C01')?.request, READY_TIMEOUT_MS);
+    if (!ready) {
+      await runCommand('docker', ['logs', '--tail', '50', containerName], logFd);
+      return fail('Container failed to start', { build_time_seconds: buildTimeSeconds });
+    }
+
+    const target = `http://localhost:${port}`;
+    log(`Testing ${target} (image built in ${buildTimeSeconds}s, CPUs ${cpuset})...`);
+    // Only a result written by this run's testing client counts
+    fs.rmSync(resultPath, { force: true });
+    const child = forkTestingClient(config, [
+      '--target', target,
+      '--team', team.name,
+      '--output', resultPath,
+      '--cold-start-image', image,
+      '--cpuset', cpuset,
+      '--code-path', repoDir,
+    ], logFd);
+
+    // A hung testing client would hold the team's cpuset (and maybe the load slot) forever
+    let timedOut = false;
+    let remainingMs = TEST_TIMEOUT_MS;
+    let clockStarted = Date.now();
+    let timer: NodeJS.Timeout | null = null;
+    const startClock = () => {
+      clockStarted = Date.now();
+      timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, Math.max(0, remainingMs));
+    };
+    const pauseClock = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      remainingMs -= Date.now() - clockStarted;
+    };
+    startClock();
+
+    child.on('message', (message: LoadSlotMessage) => {
+      if (message.type === 'acquire-load-slot') {
+        if (hold === 'shared') lock.releaseShared();
+        hold = 'none';
+        pauseClock();
+        log('Waiting for the load slot...');
+        lock.acquireExclusive().then(() => {
+          // The testing client may have exited while waiting
+          if (child.exitCode !== null || child.signalCode !== null) {
+            lock.releaseExclusive();
+            return;
+          }
+          hold = 'exclusive';
+          log('Load slot granted');
+          startClock();
+          child.send({ type: 'load-slot-granted' } satisfies LoadSlotMessage);
+        });
+      } else if (message.type === 'release-load-slot' && hold === 'exclusive') {
+        lock.releaseExclusive();
+        hold = 'none';
+      }
+    });
+
+    const exitCode = await new Promise<number | null>(resolve => child.on('exit', resolve));
+    if (timer) clearTimeout(timer);
+    if (timedOut) {
+      return fail(`Testing client did not finish within ${TEST_TIMEOUT_MS / 1000}s and was killed`, { build_time_seconds: buildTimeSeconds });
+    }
+    if (!fs.existsSync(resultPath)) {
+      return fail(`Testing client exited with status ${exitCode} without results`);
+    }
+    let results: any;
+    try {
+      results = JSON.parse(fs.readFileSync(resultPath, 'utf-8'));
+    } catch (err) {
+      // e.g. a testing client that crashed while writing its results
+      return fail(`Testing client exited with status ${exitCode} with unreadable results: ${(err as Error).message}`);
+    }
+    log(`\x1b[32mDone\x1b[0m: ${results.total?.scored ?? 0}/${results.total?.max_scoreable_by_tool ?? MAX_SCORE} points`);
+  } finally {
+    if (hold === 'shared') lock.releaseShared();
+    if (hold === 'exclusive') lock.releaseExclusive();
+    await runCommand('docker', ['rm', '-f', containerName], 'ignore');
+    await runCommand('docker', ['rmi', image], 'ignore');
+    fs.closeSync(logFd);
+  }
+}
+
+/**
+ * Start a testing client process for one team, with this process's options except
+ * the orchestrator's own. Its output goes to the team's log file.
+ */
+function forkTestingClient(config: Config, teamArgs: string[], logFd: number): ChildProcess {
+  const forwarded: string[] = [];
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    const [name, inlineValue] = args[i].split('=', 2);
+    if (!ORCHESTRATOR_OPTIONS.has(name)) {
+      forwarded.push(args[i]);
+    } else if (ORCHESTRATOR_OPTIONS.get(name) && inlineValue === undefined) {
+      i++; // Skip the option's value
+    }
+  }
+  // Teams tested in parallel get the same generated requests
+  if (!forwarded.some(a => a === '--seed' || a.startsWith('--seed='))) {
+    forwarded.push('--seed', String(config.seed));
+  }
+
+  // Forked children inherit the execArgv, which under ts-node loads TypeScript too
+  return fork(path.join(__dirname, `index${path.extname(__filename)}`), [...forwarded, ...teamArgs], {
+    stdio: ['ignore', logFd, logFd, 'ipc'],
+  });
+}
+
+/**
+ * Run a command with its output appended to the log file (or discarded).
+ * Resolves with the exit status; -1 when it could not be started or timed out.
+ */
+function runCommand(command: string, args: string[], output: number | 'ignore', timeoutMs?: number): Promise<number> {
+  if (output !== 'ignore') {
+    fs.writeSync(output, `\n$ ${command} ${args.join(' ')}\n`);
+  }
+  return new Promise(resolve => {
+    const child = spawn(command, args, { stdio: ['ignore', output, output], timeout: timeoutMs });
+    child.on('error', err => {
+      if (output !== 'ignore') fs.writeSync(output, `${command}: ${err.message}\n`);
+      resolve(-1);
+    });
+    child.on('exit', status => resolve(status ?? -1));
+  });
+}
+
+/**
+ * The host port Docker published the container's port 8080 on.
+ */
+function containerPort(containerName: string): Promise<number | null> {
+  return new Promise(resolve => {
+    execFile('docker', ['port', containerName, '8080/tcp'], (err, stdout) => {
+      // e.g. "0.0.0.0:49153" (one line per address family)
+      const match = err ? null : stdout.match(/:(\d+)\s*$/m);
+      resolve(match ? parseInt(match[1], 10) : null);
+    });
+  });
+}
+
+/** Docker cpuset notation for `count` CPUs starting at `first`. */
+function cpuRange(first: number, count: number): string {
+  return count === 1 ? String(first) : `${first}-${first + count - 1}`;
+}
+
+function shuffle<T>(items: T[], rng: Random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
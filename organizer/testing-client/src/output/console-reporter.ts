@@ -3,7 +3,7 @@
  * Displays test results in a human-readable table format.
  */
 
-import { TestResults } from '../types/results';
+import { TestResults, ScenarioResult, SoakTrend } from '../types/results';
 
 /**
  * Print the full results to console.
@@ -18,7 +18,7 @@ export function printResults(results: TestResults): void {
   for (const scenario of results.correctness.scenarios) {
     const status = scenario.passed ? '\x1b[32mPASS\x1b[0m' : '\x1b[31mFAIL\x1b[0m';
     const points = `${scenario.points}/${scenario.max_points}`;
-    console.log(`  [${status}]  ${scenario.id}  ${scenario.name.padEnd(50)} ${points}`);
+    console.log(`  [${status}]  ${scenario.id}  ${scenario.name.padEnd(50)} ${points.padEnd(6)}${formatResponseSize(scenario)}`);
     if (!scenario.passed && scenario.errors.length > 0) {
       console.log(`    \x1b[33m→ ${scenario.errors[0]}\x1b[0m`);
     }
@@ -29,21 +29,27 @@ export function printResults(results: TestResults): void {
   console.log('\n--- Performance ---');
   if (results.performance.simple_latency) {
     const s = results.performance.simple_latency;
-    console.log(`  Simple latency:   mean=${s.mean_ms.toFixed(2)}ms  median=${s.median_ms.toFixed(2)}ms  p95=${s.p95_ms.toFixed(2)}ms  p99=${s.p99_ms.toFixed(2)}ms`);
+    console.log(`  Simple latency:   mean=${s.mean_ms.toFixed(2)}ms  median=${s.median_ms.toFixed(2)}ms  p95=${s.p95_ms.toFixed(2)}ms  p99=${s.p99_ms.toFixed(2)}ms  p99.9=${s.p99_9_ms.toFixed(2)}ms  p99.99=${s.p99_99_ms.toFixed(2)}ms`);
   } else {
     console.log('  Simple latency:   (not measured)');
   }
 
   if (results.performance.complex_latency) {
     const c = results.performance.complex_latency;
-    console.log(`  Complex latency:  mean=${c.mean_ms.toFixed(2)}ms  median=${c.median_ms.toFixed(2)}ms  p95=${c.p95_ms.toFixed(2)}ms  p99=${c.p99_ms.toFixed(2)}ms`);
+    console.log(`  Complex latency:  mean=${c.mean_ms.toFixed(2)}ms  median=${c.median_ms.toFixed(2)}ms  p95=${c.p95_ms.toFixed(2)}ms  p99=${c.p99_ms.toFixed(2)}ms  p99.9=${c.p99_9_ms.toFixed(2)}ms  p99.99=${c.p99_99_ms.toFixed(2)}ms`);
   } else {
     console.log('  Complex latency:  (not measured)');
   }
 
   if (results.performance.throughput) {
     const t = results.performance.throughput;
-    console.log(`  Throughput:       ${t.requests_per_second.toFixed(0)} req/s (${t.duration_seconds}s sustained)`);
+    const mix = t.profile ? `, "${t.profile}" traffic profile` : '';
+    const bandwidth = t.bytes_per_second != null ? `, ${formatBytes(t.bytes_per_second)}/s` : '';
+    console.log(`  Throughput:       ${t.requests_per_second.toFixed(0)} req/s${bandwidth} (${t.duration_seconds}s sustained${mix})`);
+    for (const scenario of t.scenarios ?? []) {
+      const size = scenario.mean_response_bytes != null ? `  ${formatBytes(scenario.mean_response_bytes)}/resp` : '';
+      console.log(`    ${scenario.id.padEnd(4)} ${scenario.requests_per_second.toFixed(0).padStart(6)} req/s  p99=${scenario.latency.p99_ms.toFixed(2)}ms${size}  errors=${scenario.error_count}`);
+    }
   } else {
     console.log('  Throughput:       (not measured)');
   }
@@ -51,10 +57,70 @@ export function printResults(results: TestResults): void {
   if (results.performance.concurrency) {
     const c = results.performance.concurrency;
     console.log(`  Concurrency:      mean=${c.mean_ms.toFixed(2)}ms under ${c.concurrency_level} concurrent connections`);
+    if (c.knee_concurrency != null) {
+      console.log(`    Knee at ${c.knee_concurrency} connections, scaling efficiency ${(c.scaling_efficiency! * 100).toFixed(0)}% (not scored)`);
+    }
+    for (const step of c.curve ?? []) {
+      const knee = step.connections === c.knee_concurrency ? '  \x1b[36m← knee\x1b[0m' : '';
+      console.log(
+        `    ${String(step.connections).padStart(4)} conn  ${step.requests_per_second.toFixed(0).padStart(6)} req/s  ` +
+        `p50=${step.p50_ms.toFixed(2)}ms  p99=${step.p99_ms.toFixed(2)}ms  errors=${step.error_count}${knee}`
+      );
+    }
   } else {
     console.log('  Concurrency:      (not measured)');
   }
 
+  if (results.performance.open_loop) {
+    const o = results.performance.open_loop;
+    const rate = o.max_sustainable_rps != null ? `${o.max_sustainable_rps} req/s` : 'none';
+    console.log(`  Open-loop:        ${rate} sustainable with p99 <= ${o.p99_slo_ms}ms (not scored)`);
+    for (const step of o.steps) {
+      console.log(`    ${String(step.target_rps).padStart(6)} req/s  p99=${step.latency.p99_ms.toFixed(2)}ms  errors=${step.error_count}${step.sustainable ? '' : '  \x1b[31mBREACH\x1b[0m'}`);
+    }
+  }
+
+  if (results.performance.scalability) {
+    const sc = results.performance.scalability;
+    const exponent = (b: number | null) => b != null ? b.toFixed(2) : 'n/a';
+    console.log(
+      `  Scalability:      latency ~ mutations^${exponent(sc.mutation_growth_exponent)}, ` +
+      `~ projection months^${exponent(sc.projection_growth_exponent)} (not scored)`
+    );
+    for (const point of [...sc.by_mutation_count, ...sc.by_projection_months]) {
+      const latency = point.latency
+        ? `mean=${point.latency.mean_ms.toFixed(2)}ms  p99=${point.latency.p99_ms.toFixed(2)}ms`
+        : '\x1b[31mincorrect\x1b[0m';
+      console.log(`    ${point.scenario_id.padEnd(12)} ${latency}`);
+    }
+  }
+
+  if (results.performance.transports) {
+    console.log('  Transports:       (not scored)');
+    for (const t of results.performance.transports) {
+      const correct = t.correct === t.checked ? '' : `  \x1b[31m${t.checked - t.correct} incorrect\x1b[0m`;
+      const ratio = t.compression_ratio != null ? `  compressed ${t.compression_ratio.toFixed(1)}x` : '';
+      console.log(
+        `    ${`${t.protocol}+${t.encoding}`.padEnd(14)} mean=${t.latency.mean_ms.toFixed(2)}ms  p99=${t.latency.p99_ms.toFixed(2)}ms  ` +
+        `${t.requests_per_second.toFixed(0)} req/s${ratio}${correct}`
+      );
+    }
+  }
+
+  if (results.performance.spot_checks) {
+    const sc = results.performance.spot_checks;
+    const payloads = sc.unique_payloads ? 'unique payloads' : 'fixture payloads';
+    console.log(`  Spot checks:      ${sc.passed}/${sc.checked} sampled responses correct (${payloads})`);
+    if (sc.correct_under_load_rate !== null) {
+      const penalty = sc.penalized ? `  \x1b[31mabove ${(sc.max_incorrect_under_load * 100).toFixed(1)}% incorrect: performance scores zeroed\x1b[0m` : '';
+      console.log(`  Correct under load: ${(sc.correct_under_load_rate * 100).toFixed(1)}% of ${sc.under_load_checked} sampled${penalty}`);
+    }
+    for (const failure of sc.failures) {
+      console.log(`    \x1b[31mFAIL\x1b[0m  ${failure.fixture_id} (${failure.test})`);
+      console.log(`      \x1b[33m→ ${failure.errors[0]}\x1b[0m`);
+    }
+  }
+
   if (results.performance.relative_scores) {
     const r = results.performance.relative_scores;
     console.log(`  Performance Score: ${r.total.toFixed(1)}/40 (simple=${r.simple_latency_score.toFixed(1)} complex=${r.complex_latency_score.toFixed(1)} throughput=${r.throughput_score.toFixed(1)} concurrency=${r.concurrency_score.toFixed(1)})`);
@@ -81,6 +147,36 @@ export function printResults(results: TestResults): void {
       console.log(`    \x1b[33m→ ${(item.result as any).errors[0]}\x1b[0m`);
     }
   }
+  const lookups = results.bonus.scheme_registry_lookups;
+  if (lookups) {
+    const mark = (ok: boolean) => ok ? '\x1b[32m✓\x1b[0m' : '\x1b[31m✗\x1b[0m';
+    console.log(
+      `  Registry lookups (not scored): caching ${mark(lookups.caches_lookups)} ` +
+      `(${lookups.batch_registry_calls} calls for ${lookups.batch_requests} requests)  ` +
+      `distinct schemes ${mark(lookups.distinct_schemes_fetched)}  per-scheme rates ${mark(lookups.per_scheme_rates_applied)}`
+    );
+    for (const error of lookups.errors) {
+      console.log(`    \x1b[33m→ ${error}\x1b[0m`);
+    }
+  }
+  const faults = results.bonus.scheme_registry_faults;
+  if (faults) {
+    console.log(`  Registry faults handled gracefully (not scored): ${faults.passed}/${faults.total}`);
+    for (const check of faults.checks.filter(c => !c.passed)) {
+      console.log(`    \x1b[33m→ ${check.fault}: ${check.errors[0]}\x1b[0m`);
+    }
+  }
+  const breakdown = results.bonus.cold_start.breakdown;
+  if (breakdown) {
+    const ms = (value: number | null) => value != null ? `${value.toFixed(0)}ms` : 'N/A';
+    console.log(
+      `  Cold start phases: listen ${ms(breakdown.listen_ms)} → first response ${ms(breakdown.first_response_ms)}` +
+      ` → first correct ${ms(breakdown.first_correct_ms)}`
+    );
+    if (breakdown.warmup_latencies_ms.length > 0) {
+      console.log(`  Warm-up latency: ${breakdown.warmup_latencies_ms.map(l => l.toFixed(1)).join(', ')}ms`);
+    }
+  }
   console.log(`  Subtotal: ${results.bonus.total}/${results.bonus.max}`);
 
   // --- Code Quality ---
@@ -90,6 +186,81 @@ export function printResults(results: TestResults): void {
   console.log(`  Project Structure:           ${results.code_quality.project_structure}/1.5`);
   console.log(`  Subtotal: ${results.code_quality.points}/5`);
 
+  // --- Differential (informational, not scored) ---
+  if (results.differential) {
+    const d = results.differential;
+    console.log(`\n--- Differential (seed ${d.seed}, not scored) ---`);
+    console.log(`  Matching reference: ${d.passed}/${d.total}`);
+    console.log(`  Responses violating invariants: ${d.invariant_violation_count}/${d.total}`);
+    for (const failure of d.failures) {
+      console.log(`  \x1b[31mFAIL\x1b[0m  ${failure.fixture_path} (${failure.shrunk_mutation_count} mutations)`);
+      console.log(`    \x1b[33m→ ${failure.errors[0]}\x1b[0m`);
+    }
+  }
+
+  // --- Metamorphic (informational, not scored) ---
+  if (results.metamorphic) {
+    const m = results.metamorphic;
+    console.log('\n--- Metamorphic (not scored) ---');
+    console.log(`  Relations holding: ${m.passed}/${m.total}`);
+    for (const check of m.checks.filter(c => !c.passed)) {
+      console.log(`  \x1b[31mFAIL\x1b[0m  ${check.fixture_id} ${check.relation}`);
+      console.log(`    \x1b[33m→ ${check.errors[0]}\x1b[0m`);
+    }
+  }
+
+  // --- Soak (informational, not scored) ---
+  if (results.soak) {
+    const s = results.soak;
+    console.log(`\n--- Soak (${s.duration_seconds}s, not scored) ---`);
+    console.log(`  Requests: ${s.total_requests} (${s.error_count} errors) in ${s.samples.length} samples of ${s.sample_interval_seconds}s`);
+    const first = s.samples[0];
+    const last = s.samples[s.samples.length - 1];
+    if (first && last) {
+      console.log(`  p99: ${first.latency.p99_ms.toFixed(2)}ms → ${last.latency.p99_ms.toFixed(2)}ms${formatTrend(s.p99_trend)}`);
+      if (first.memory_rss_bytes != null && last.memory_rss_bytes != null) {
+        const mb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+        console.log(`  Memory (RSS): ${mb(first.memory_rss_bytes)} → ${mb(last.memory_rss_bytes)}${formatTrend(s.memory_trend)}`);
+      } else {
+        console.log('  Memory (RSS): (not sampled)');
+      }
+    }
+  }
+
+  // --- Invariants (reported separately from fixture mismatches, not scored) ---
+  const invariantViolations = collectInvariantViolations(results);
+  if (invariantViolations.length > 0) {
+    console.log(`\n--- Invariants (${invariantViolations.length} violations, not scored) ---`);
+    for (const violation of invariantViolations) {
+      console.log(`  \x1b[35m→ ${violation}\x1b[0m`);
+    }
+  }
+
+  // --- Contract (api-spec.yaml conformance, not part of the total) ---
+  if (results.contract) {
+    const c = results.contract;
+    console.log('\n--- Contract (api-spec.yaml, not in total) ---');
+    console.log(`  Conforming responses: ${c.points}/${c.max}`);
+    for (const scenario of c.scenarios.filter(s => !s.conforming)) {
+      console.log(`  \x1b[31mFAIL\x1b[0m  ${scenario.id} (${scenario.violations.length} violations)`);
+      console.log(`    \x1b[33m→ ${scenario.violations[0]}\x1b[0m`);
+    }
+  }
+
+  // --- Resources (tiered, not part of the total) ---
+  if (results.resources) {
+    const r = results.resources;
+    const mb = (bytes: number | null) => bytes != null ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : 'N/A';
+    console.log('\n--- Resources (not in total) ---');
+    console.log(`  Image size:   ${mb(r.image_size_bytes).padStart(9)}  (${r.scores.image_size}/2)`);
+    console.log(`  Idle RSS:     ${mb(r.idle_rss_bytes).padStart(9)}  (${r.scores.idle_rss}/2)`);
+    console.log(`  Peak RSS:     ${mb(r.peak_rss_bytes).padStart(9)}  (${r.scores.peak_rss}/2)`);
+    const cpu = r.cpu_ms_per_request != null ? `${r.cpu_ms_per_request.toFixed(3)}ms` : 'N/A';
+    console.log(`  CPU/request:  ${cpu.padStart(9)}  (${r.scores.cpu_per_request}/2)  over ${r.load_requests} requests` +
+      (r.load_source === 'separate-run' ? ' (separate throughput run)' : ' (during the throughput test)'));
+    console.log(`  Points: ${r.points}/${r.max}`);
+  }
+
   // --- Summary ---
   console.log('\n--- Summary ---');
   console.log(`  Correctness:  ${results.correctness.total}/${results.correctness.max}`);
@@ -110,3 +281,45 @@ export function printResults(results: TestResults): void {
   }
   console.log('');
 }
+
+/**
+ * Describe a soak trend after its first-to-last values.
+ */
+function formatTrend(trend: SoakTrend | null): string {
+  if (!trend) return '  (too few samples for a trend)';
+  const change = `${trend.relative_increase >= 0 ? '+' : ''}${(trend.relative_increase * 100).toFixed(0)}% over the run`;
+  return trend.flagged ? `  \x1b[31mUPWARD TREND\x1b[0m (${change})` : `  (${change})`;
+}
+
+/**
+ * Response body size of a correctness scenario, with the gzip ratio when it was compressed.
+ */
+function formatResponseSize(scenario: ScenarioResult): string {
+  if (scenario.response_bytes == null) return '';
+  const ratio = scenario.compression_ratio ? ` (compressed ${scenario.compression_ratio.toFixed(1)}x)` : '';
+  return `${formatBytes(scenario.response_bytes).padStart(8)}${ratio}`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${bytes.toFixed(0)}B`;
+}
+
+/**
+ * Gather invariant violations from every suite that checked responses.
+ */
+function collectInvariantViolations(results: TestResults): string[] {
+  const bonusFeatures = [
+    results.bonus.forward_json_patch,
+    results.bonus.backward_json_patch,
+    results.bonus.scheme_registry,
+    results.bonus.project_future_benefits,
+  ];
+  // Bonus tests resend correctness fixtures, so the same violation can be reported twice
+  return [...new Set([
+    ...results.correctness.scenarios.flatMap(s => (s.invariant_violations ?? []).map(v => `${s.id}: ${v}`)),
+    ...bonusFeatures.flatMap(f => f.invariant_violations ?? []),
+    ...(results.differential?.invariant_violations ?? []).map(v => `differential ${v}`),
+  ])];
+}
@@ -4,15 +4,23 @@
 
 import axios from 'axios';
 import { Config } from './config';
-import { createHttpClient } from './helpers/http-client';
-import { loadFixtureById } from './helpers/fixture-loader';
+import { createTargetClient } from './helpers/http-client';
+import { attachRequestLog } from './helpers/request-log';
+import { withLoadSlot } from './helpers/load-slot';
+import { loadFixtureById, getCorrectnessFixtures } from './helpers/fixture-loader';
+import { createTeamContainer, removeContainer, findFreePort, waitForTarget } from './helpers/team-container';
 import { captureEnvironment, warnIfUnfairConditions } from './helpers/environment';
 import { runCorrectnessTests } from './suites/correctness';
 import { runPerformanceTests } from './suites/performance';
 import { runBonusTests } from './suites/bonus';
-import { runColdStartTest } from './suites/cold-start';
+import { runColdStartTest, runResourceTest, sampleLoadFootprint, LoadFootprint } from './suites/cold-start';
 import { runAICodeReview } from './suites/ai-review';
-import { buildTestResults } from './scoring/calculator';
+import { runDifferentialTests } from './suites/differential';
+import { runMetamorphicTests } from './suites/metamorphic';
+import { runSoakTests } from './suites/soak';
+import { startReferenceEngine } from './helpers/pension-math';
+import { runAllTeams } from './orchestrator';
+import { buildTestResults, calculateContractScore } from './scoring/calculator';
 import { printResults } from './output/console-reporter';
 import { writeJsonResults } from './output/json-reporter';
 import { loadTeamResults, generateLeaderboard, printLeaderboard, writeLeaderboardJson, appendSubmission, calculateRelativeScores } from './scoring/leaderboard';
@@ -21,16 +29,23 @@ import {
   PerformanceResults,
   BonusResults,
   CodeQualityResults,
+  DifferentialResults,
+  ContractResults,
+  MetamorphicResults,
+  SoakResults,
+  ResourceResults,
+  ContainerLimitsSnapshot,
 } from './types/results';
 
 const HEALTH_CHECK_TIMEOUT_MS = 10_000;
+const CONTAINER_READY_TIMEOUT_MS = 30_000;
 
 /**
  * Run the full test suite against the target.
  */
 export async function run(config: Config): Promise<void> {
   // Leaderboard-only mode (no --target required)
-  if (config.leaderboard && config.resultsDir && !config.target) {
+  if (config.leaderboard && config.resultsDir && !config.target && !config.selfTest) {
     const allResults = loadTeamResults(config.resultsDir);
     const leaderboard = generateLeaderboard(allResults);
     printLeaderboard(leaderboard);
@@ -38,6 +53,30 @@ export async function run(config: Config): Promise<void> {
     return;
   }
 
+  // Orchestrator mode: test every team in the teams file
+  if (config.teamsFile) {
+    await runAllTeams(config);
+    return;
+  }
+
+  // Self-test mode: run the suites against the in-process reference engine
+  if (config.selfTest) {
+    const engine = await startReferenceEngine();
+    try {
+      await runAgainstTarget({ ...config, target: engine.url });
+    } finally {
+      await engine.close();
+    }
+    return;
+  }
+
+  await runAgainstTarget(config);
+}
+
+/**
+ * Run the selected suites against config.target and report the results.
+ */
+async function runAgainstTarget(config: Config): Promise<void> {
   console.log('=== Visma Performance Hackathon - Testing Client ===');
   console.log(`Target: ${config.target}`);
   console.log(`Team: ${config.team}`);
@@ -49,9 +88,6 @@ export async function run(config: Config): Promise<void> {
   console.log(`Memory: ${environment.free_memory_mb}MB free / ${environment.total_memory_mb}MB total | Load: ${environment.load_avg_1m}`);
   warnIfUnfairConditions(environment);
 
-  // Initialize HTTP client for the target
-  createHttpClient(config.target);
-
   // FR-1: Health Check (10 second timeout)
   console.log('\n--- Health Check ---');
   const healthy = await performHealthCheck(config.target);
@@ -61,6 +97,10 @@ export async function run(config: Config): Promise<void> {
   }
   console.log('\x1b[32mTarget is reachable.\x1b[0m');
 
+  // HTTP client for the target, passed to every suite
+  const client = createTargetClient(config.target);
+  const closeRequestLog = config.requestLog ? attachRequestLog(client, config.requestLog) : null;
+
   // Initialize results with defaults
   let correctness: CorrectnessResults = { total: 0, max: 40, scenarios: [] };
   let performance: PerformanceResults = {
@@ -94,18 +134,30 @@ export async function run(config: Config): Promise<void> {
     skipped: true,
   };
   let technologyStack: string | undefined;
+  let differential: DifferentialResults | undefined;
+  let contract: ContractResults | undefined;
+  let metamorphic: MetamorphicResults | undefined;
+  let soak: SoakResults | undefined;
+  let resources: ResourceResults | undefined;
+  // Memory and CPU of the --performance-container container during the throughput test
+  let throughputLoad: LoadFootprint | null = null;
 
   const suite = config.suite;
 
   // Correctness always runs first -- performance and bonus depend on knowing
   // which correctness scenarios passed (per PRD FR-3 pre-condition).
   const needsCorrectness =
-    suite === 'all' || suite === 'correctness' || suite === 'performance' || suite === 'bonus';
+    ['all', 'correctness', 'performance', 'bonus', 'metamorphic', 'soak'].includes(suite);
 
   if (needsCorrectness) {
     console.log('\n--- Correctness Tests ---');
-    correctness = await runCorrectnessTests(config);
+    correctness = await runCorrectnessTests(config, client);
     console.log(`\n  Subtotal: ${correctness.total}/${correctness.max}`);
+
+    if (config.contractScore) {
+      contract = calculateContractScore(correctness.scenarios);
+      console.log(`  Contract: ${contract.points}/${contract.max} responses conform to api-spec.yaml`);
+    }
   }
 
   // Collect IDs of passing correctness scenarios
@@ -116,7 +168,16 @@ export async function run(config: Config): Promise<void> {
   if (suite === 'all' || suite === 'performance') {
     if (passedIds.size > 0) {
       console.log('\n--- Performance Tests ---');
-      performance = await runPerformanceTests(config, passedIds);
+      if (config.performanceContainer) {
+        const limited = await withLoadSlot(() => runLimitedPerformanceTests(config, passedIds));
+        if (limited) {
+          performance = limited.performance;
+          environment.container_limits = limited.limits;
+          throughputLoad = limited.load;
+        }
+      } else {
+        performance = await withLoadSlot(() => runPerformanceTests(config, client, passedIds));
+      }
     } else {
       console.log('\n--- Performance Tests ---');
       console.log('  Skipped (no passing correctness scenarios)');
@@ -125,13 +186,16 @@ export async function run(config: Config): Promise<void> {
 
   if (suite === 'all' || suite === 'bonus') {
     console.log('\n--- Bonus Tests ---');
-    bonus = await runBonusTests(config, passedIds);
+    bonus = await runBonusTests(config, client, passedIds);
 
     // Cold start test (only if Docker image provided and not explicitly skipped)
     if (config.coldStartImage && !config.skipColdStart) {
-      const coldStart = await runColdStartTest(config);
+      const coldStart = await withLoadSlot(() => runColdStartTest(config));
       bonus.cold_start = coldStart;
       bonus.total += coldStart.points;
+
+      const scenarios = getCorrectnessFixtures().filter(f => passedIds.has(f.id));
+      resources = await withLoadSlot(() => runResourceTest(config, scenarios, throughputLoad));
     }
 
     // AI Code Review (scores both code quality and clean architecture)
@@ -144,6 +208,38 @@ export async function run(config: Config): Promise<void> {
     }
   }
 
+  // Differential testing is informational and runs only when requested explicitly
+  if (suite === 'differential') {
+    console.log('\n--- Differential Tests ---');
+    differential = await runDifferentialTests(config, client);
+    console.log(`\n  ${differential.passed}/${differential.total} generated requests match the reference engine`);
+  }
+
+  // Metamorphic testing derives its requests from the passing correctness scenarios
+  if (suite === 'metamorphic') {
+    console.log('\n--- Metamorphic Tests ---');
+    metamorphic = await runMetamorphicTests(config, client, passedIds);
+    console.log(`\n  ${metamorphic.passed}/${metamorphic.total} metamorphic relations hold`);
+  }
+
+  // Soak testing replays the passing correctness scenarios for a long period
+  if (suite === 'soak') {
+    console.log('\n--- Soak Tests ---');
+    if (passedIds.size > 0) {
+      soak = await withLoadSlot(() => runSoakTests(config, client, passedIds));
+      console.log(`\n  ${soak.total_requests} requests over ${soak.duration_seconds}s, ${soak.error_count} errors`);
+    } else {
+      console.log('  Skipped (no passing correctness scenarios)');
+    }
+  }
+
+  // All suites are done with the target
+  client.close();
+  if (closeRequestLog) {
+    await closeRequestLog();
+    console.log(`\nRequest log written to ${config.requestLog}`);
+  }
+
   // Build and display results
   const results = buildTestResults(
     config.team,
@@ -154,6 +250,11 @@ export async function run(config: Config): Promise<void> {
     bonus,
     codeQuality,
     technologyStack,
+    differential,
+    contract,
+    metamorphic,
+    soak,
+    resources,
   );
 
   printResults(results);
@@ -181,6 +282,67 @@ export async function run(config: Config): Promise<void> {
   }
 }
 
+/**
+ * Run the performance suite against a fresh container of --cold-start-image with
+ * fixed CPU and memory limits, so scores do not depend on the size of the machine.
+ * The container's memory and CPU are sampled during the throughput test for the
+ * resource test. Returns null (performance not measured) when the container does not start.
+ */
+async function runLimitedPerformanceTests(
+  config: Config,
+  passedIds: Set<string>,
+): Promise<{ performance: PerformanceResults; limits: ContainerLimitsSnapshot; load: LoadFootprint | null } | null> {
+  const Dockerode = require('dockerode');
+  const docker = new Dockerode();
+  const image = config.coldStartImage!;
+  const limits: ContainerLimitsSnapshot = {
+    image,
+    cpus: config.containerCpus,
+    memory_mb: Math.round(config.containerMemoryBytes / (1024 * 1024)),
+    cpuset: config.cpuset ?? null,
+  };
+
+  console.log(
+    `  Starting ${image} limited to ${limits.cpus} CPUs and ${limits.memory_mb}MB memory` +
+    `${limits.cpuset ? ` on CPUs ${limits.cpuset}` : ''}...`
+  );
+
+  const port = await findFreePort();
+  let container: any = null;
+  try {
+    try {
+      container = await createTeamContainer(docker, image, port, {
+        limits: { cpus: config.containerCpus, memoryBytes: config.containerMemoryBytes, cpuset: config.cpuset },
+      });
+      await container.start();
+    } catch (err) {
+      console.log(`  \x1b[31mCould not start the container: ${(err as Error).message}. Performance not measured.\x1b[0m`);
+      return null;
+    }
+
+    const targetUrl = `http://localhost:${port}`;
+    if (!(await waitForTarget(targetUrl, loadFixtureById('C01')?.request, CONTAINER_READY_TIMEOUT_MS))) {
+      console.log(`  \x1b[31mContainer did not become ready within ${CONTAINER_READY_TIMEOUT_MS / 1000}s. Performance not measured.\x1b[0m`);
+      return null;
+    }
+
+    const client = createTargetClient(targetUrl);
+    let load: LoadFootprint | null = null;
+    try {
+      const performance = await runPerformanceTests(config, client, passedIds, async throughputTest => {
+        const measured = await sampleLoadFootprint(container, throughputTest);
+        load = measured.footprint;
+        return measured.throughput;
+      });
+      return { performance, limits, load };
+    } finally {
+      client.close();
+    }
+  } finally {
+    if (container) await removeContainer(container);
+  }
+}
+
 /**
  * FR-1: Health Check.
  * Send a minimal valid request and verify the target responds within 10 seconds.
@@ -11,6 +11,12 @@ import {
   CodeQualityResults,
   EnvironmentSnapshot,
   TotalScore,
+  DifferentialResults,
+  ContractResults,
+  MetamorphicResults,
+  SoakResults,
+  ResourceResults,
+  ScenarioResult,
 } from '../types/results';
 
 /**
@@ -41,6 +47,24 @@ export function calculateTotalScore(
   };
 }
 
+/**
+ * Build the contract score from the correctness scenarios that received an HTTP response (a body that is not JSON does not conform).
+ */
+export function calculateContractScore(scenarios: ScenarioResult[]): ContractResults {
+  const checked = scenarios.filter(s => s.contract_violations !== undefined);
+  const results = checked.map(s => ({
+    id: s.id,
+    conforming: s.contract_violations!.length === 0,
+    violations: s.contract_violations!,
+  }));
+
+  return {
+    points: results.filter(r => r.conforming).length,
+    max: results.length,
+    scenarios: results,
+  };
+}
+
 /**
  * Build the complete test results object.
  */
@@ -53,6 +77,11 @@ export function buildTestResults(
   bonus: BonusResults,
   codeQuality: CodeQualityResults,
   technologyStack?: string,
+  differential?: DifferentialResults,
+  contract?: ContractResults,
+  metamorphic?: MetamorphicResults,
+  soak?: SoakResults,
+  resources?: ResourceResults,
 ): TestResults {
   return {
     team,
@@ -65,5 +94,10 @@ export function buildTestResults(
     code_quality: codeQuality,
     total: calculateTotalScore(correctness, performance, bonus, codeQuality),
     technology_stack: technologyStack,
+    differential,
+    contract,
+    metamorphic,
+    soak,
+    resources,
   };
 }
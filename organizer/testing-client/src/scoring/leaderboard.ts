@@ -91,21 +91,24 @@ export function loadTeamResults(resultsDir: string): TestResults[] {
 
 /**
  * Calculate relative performance scores for all teams.
+ * Teams returning too many incorrect responses under load score zero and do not
+ * set the best values the other teams are compared with.
  */
 export function calculateRelativeScores(allResults: TestResults[]): void {
   if (allResults.length === 0) return;
 
   // Find best values across all teams
-  const simpleLatencies = allResults
+  const eligible = allResults.filter(r => !r.performance.spot_checks?.penalized);
+  const simpleLatencies = eligible
     .map(r => r.performance.simple_latency?.mean_ms)
     .filter((v): v is number => v != null && v > 0);
-  const complexLatencies = allResults
+  const complexLatencies = eligible
     .map(r => r.performance.complex_latency?.mean_ms)
     .filter((v): v is number => v != null && v > 0);
-  const throughputs = allResults
+  const throughputs = eligible
     .map(r => r.performance.throughput?.requests_per_second)
     .filter((v): v is number => v != null && v > 0);
-  const concurrencyLatencies = allResults
+  const concurrencyLatencies = eligible
     .map(r => r.performance.concurrency?.mean_ms)
     .filter((v): v is number => v != null && v > 0);
 
@@ -116,6 +119,18 @@ export function calculateRelativeScores(allResults: TestResults[]): void {
 
   // Calculate relative scores for each team
   for (const result of allResults) {
+    if (result.performance.spot_checks?.penalized) {
+      result.performance.relative_scores = {
+        simple_latency_score: 0,
+        complex_latency_score: 0,
+        throughput_score: 0,
+        concurrency_score: 0,
+        total: 0,
+      };
+      result.total.scored = result.correctness.total + result.bonus.total + result.code_quality.points;
+      continue;
+    }
+
     const simpleScore = result.performance.simple_latency?.mean_ms
       ? Math.min(10, 10 * (bestSimple / result.performance.simple_latency.mean_ms))
       : 0;
@@ -163,6 +178,8 @@ export function generateLeaderboard(allResults: TestResults[]): LeaderboardEntry
     bonus: r.bonus.total,
     code_quality: r.code_quality.points,
     total: r.total.scored,
+    concurrency_knee: r.performance.concurrency?.knee_concurrency ?? null,
+    scaling_efficiency: r.performance.concurrency?.scaling_efficiency ?? null,
   }));
 
   // Sort by total score descending
@@ -187,9 +204,11 @@ export function printLeaderboard(entries: LeaderboardEntry[]): void {
     'Perf'.padStart(10) +
     'Bonus'.padStart(10) +
     'Quality'.padStart(10) +
-    'Total'.padStart(10)
+    'Total'.padStart(10) +
+    'Knee'.padStart(8) +
+    'Eff'.padStart(7)
   );
-  console.log('─'.repeat(80));
+  console.log('─'.repeat(95));
 
   for (const entry of entries) {
     console.log(
@@ -199,7 +218,9 @@ export function printLeaderboard(entries: LeaderboardEntry[]): void {
       entry.performance.toFixed(1).padStart(10) +
       entry.bonus.toFixed(0).padStart(10) +
       entry.code_quality.toFixed(1).padStart(10) +
-      entry.total.toFixed(1).padStart(10)
+      entry.total.toFixed(1).padStart(10) +
+      (entry.concurrency_knee != null ? String(entry.concurrency_knee) : '-').padStart(8) +
+      (entry.scaling_efficiency != null ? `${(entry.scaling_efficiency * 100).toFixed(0)}%` : '-').padStart(7)
     );
   }
 
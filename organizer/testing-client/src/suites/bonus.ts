@@ -3,35 +3,42 @@
  * Tests JSON Patch, project_future_benefits, and External Scheme Registry.
  */
 
-import * as http from 'http';
-import * as net from 'net';
-import axios from 'axios';
 import { Config } from '../config';
 import { getCorrectnessFixtures, loadFixtureById } from '../helpers/fixture-loader';
-import { sendCalculationRequest, createHttpClient } from '../helpers/http-client';
+import { TargetClient, createTargetClient } from '../helpers/http-client';
 import { validateResponse } from '../validation/response-validator';
 import { validatePatches } from '../validation/json-patch-validator';
-import { BonusResults, BonusFeatureResult } from '../types/results';
+import { checkInvariants } from '../validation/invariants';
+import {
+  BonusResults,
+  BonusFeatureResult,
+  SchemeRegistryLookupResults,
+  SchemeRegistryFaultResults,
+  SchemeRegistryFaultCheck,
+} from '../types/results';
+import { TestFixture } from '../types/fixtures';
+import { CalculationRequest, Policy } from '../types/api';
 import { calculateRetirementBenefit, PolicyForCalc } from '../helpers/pension-math';
+import { createTeamContainer, removeContainer, findFreePort, waitForTarget } from '../helpers/team-container';
+import { MockSchemeRegistry, SCHEME_REGISTRY_FAULTS, startMockSchemeRegistry } from '../helpers/mock-scheme-registry';
 
-/**
- * Find a free port by binding to port 0 (OS-assigned) then closing.
- */
-function findFreePort(): Promise<number> {
-  return new Promise((resolve, reject) => {
-    const server = net.createServer();
-    server.listen(0, '127.0.0.1', () => {
-      const address = server.address();
-      if (address && typeof address === 'object') {
-        const port = address.port;
-        server.close(() => resolve(port));
-      } else {
-        server.close(() => reject(new Error('Could not determine port')));
-      }
-    });
-    server.on('error', reject);
-  });
-}
+/** Accrual rate the mock registry answers with. */
+const REGISTRY_ACCRUAL_RATE = 0.025;
+
+/** Accrual rate engines use without (or when falling back from) the registry. */
+const DEFAULT_ACCRUAL_RATE = 0.02;
+
+/** Rates the registry gives the distinct schemes of one request, in order. */
+const PER_SCHEME_RATES = [0.025, 0.03];
+
+/** Sequential requests with the same scheme IDs sent to check caching. */
+const LOOKUP_BATCH_REQUESTS = 20;
+
+/** Registry calls per scheme allowed during the batch (one refetch, e.g. by a short-lived cache). */
+const MAX_FETCHES_PER_SCHEME = 2;
+
+/** Longest acceptable response time during a registry fault (README: engines time out after 2s). */
+const FAULT_RESPONSE_TIMEOUT_MS = 10000;
 
 /**
  * Run the bonus test suite.
@@ -39,24 +46,25 @@ function findFreePort(): Promise<number> {
  */
 export async function runBonusTests(
   config: Config,
+  client: TargetClient,
   passedScenarioIds: Set<string>,
 ): Promise<BonusResults> {
   console.log('\n  Running bonus tests...\n');
 
   // FR-4.1: Forward JSON Patch
-  const forwardPatch = await testForwardJsonPatch(config, passedScenarioIds);
+  const forwardPatch = await testForwardJsonPatch(config, client, passedScenarioIds);
   logBonusResult('Forward JSON Patch', forwardPatch, 7);
 
   // FR-4.2: Backward JSON Patch
-  const backwardPatch = await testBackwardJsonPatch(config, passedScenarioIds);
+  const backwardPatch = await testBackwardJsonPatch(config, client, passedScenarioIds);
   logBonusResult('Backward JSON Patch', backwardPatch, 4);
 
   // FR-4.3: project_future_benefits
-  const projections = await testProjectFutureBenefits(config);
+  const projections = await testProjectFutureBenefits(config, client);
   logBonusResult('project_future_benefits', projections, 5);
 
-  // FR-4.4: External Scheme Registry
-  const schemeRegistry = await testSchemeRegistry(config, passedScenarioIds);
+  // FR-4.4: External Scheme Registry (plus unscored lookup and registry fault checks)
+  const { result: schemeRegistry, lookups, faults } = await testSchemeRegistry(config, client, passedScenarioIds);
   logBonusResult('Scheme Registry Integration', schemeRegistry, 5);
 
   const total = forwardPatch.points + backwardPatch.points + projections.points + schemeRegistry.points;
@@ -79,6 +87,8 @@ export async function runBonusTests(
       points: 0,
     },
     scheme_registry: schemeRegistry,
+    ...(lookups ? { scheme_registry_lookups: lookups } : {}),
+    ...(faults ? { scheme_registry_faults: faults } : {}),
     project_future_benefits: projections,
   };
 }
@@ -89,6 +99,9 @@ function logBonusResult(name: string, result: BonusFeatureResult, maxPoints: num
   if (!result.passed && result.errors?.length) {
     console.log(`    \x1b[33m→ ${result.errors[0]}\x1b[0m`);
   }
+  for (const violation of result.invariant_violations ?? []) {
+    console.log(`    \x1b[35m→ invariant ${violation}\x1b[0m`);
+  }
 }
 
 /**
@@ -96,6 +109,7 @@ function logBonusResult(name: string, result: BonusFeatureResult, maxPoints: num
  */
 async function testForwardJsonPatch(
   config: Config,
+  client: TargetClient,
   passedScenarioIds: Set<string>,
 ): Promise<BonusFeatureResult> {
   const fixtures = getCorrectnessFixtures().filter(f => passedScenarioIds.has(f.id));
@@ -104,13 +118,15 @@ async function testForwardJsonPatch(
   }
 
   const allErrors: string[] = [];
+  const invariantViolations: string[] = [];
 
   for (const fixture of fixtures) {
-    const result = await sendCalculationRequest(fixture.request);
+    const result = await client.send(fixture.request);
     if (!result.body || result.error) {
       allErrors.push(`${fixture.id}: Request failed`);
       continue;
     }
+    invariantViolations.push(...checkInvariants(fixture.request, result.status === 200 ? result.body : null).map(v => `${fixture.id}: ${v}`));
 
     const response = result.body;
     const mutations = response.calculation_result?.mutations;
@@ -144,6 +160,7 @@ async function testForwardJsonPatch(
     passed: allErrors.length === 0,
     points: allErrors.length === 0 ? 7 : 0,
     errors: allErrors,
+    invariant_violations: invariantViolations,
   };
 }
 
@@ -152,6 +169,7 @@ async function testForwardJsonPatch(
  */
 async function testBackwardJsonPatch(
   config: Config,
+  client: TargetClient,
   passedScenarioIds: Set<string>,
 ): Promise<BonusFeatureResult> {
   const fixtures = getCorrectnessFixtures().filter(f => passedScenarioIds.has(f.id));
@@ -160,13 +178,15 @@ async function testBackwardJsonPatch(
   }
 
   const allErrors: string[] = [];
+  const invariantViolations: string[] = [];
 
   for (const fixture of fixtures) {
-    const result = await sendCalculationRequest(fixture.request);
+    const result = await client.send(fixture.request);
     if (!result.body || result.error) {
       allErrors.push(`${fixture.id}: Request failed`);
       continue;
     }
+    invariantViolations.push(...checkInvariants(fixture.request, result.status === 200 ? result.body : null).map(v => `${fixture.id}: ${v}`));
 
     const response = result.body;
     const mutations = response.calculation_result?.mutations;
@@ -192,19 +212,20 @@ async function testBackwardJsonPatch(
     passed: allErrors.length === 0,
     points: allErrors.length === 0 ? 4 : 0,
     errors: allErrors,
+    invariant_violations: invariantViolations,
   };
 }
 
 /**
  * FR-4.3: Test project_future_benefits bonus mutation.
  */
-async function testProjectFutureBenefits(config: Config): Promise<BonusFeatureResult> {
+async function testProjectFutureBenefits(config: Config, client: TargetClient): Promise<BonusFeatureResult> {
   const fixture = loadFixtureById('B01');
   if (!fixture) {
     return { passed: false, points: 0, errors: ['B01 fixture not found'] };
   }
 
-  const result = await sendCalculationRequest(fixture.request);
+  const result = await client.send(fixture.request);
   if (result.error) {
     return { passed: false, points: 0, errors: [`Request failed: ${result.error}`] };
   }
@@ -218,6 +239,7 @@ async function testProjectFutureBenefits(config: Config): Promise<BonusFeatureRe
     passed: validation.passed,
     points: validation.passed ? 5 : 0,
     errors: validation.errors,
+    invariant_violations: checkInvariants(fixture.request, result.status === 200 ? result.body : null).map(v => `${fixture.id}: ${v}`),
   };
 }
 
@@ -230,53 +252,37 @@ async function testProjectFutureBenefits(config: Config): Promise<BonusFeatureRe
  * - If --cold-start-image is NOT provided: start the mock registry and send the request
  *   to the existing target (assumes the team manually set SCHEME_REGISTRY_URL).
  *
- * Mock Scheme Registry:
- * - GET /schemes/{scheme_id} → { "scheme_id": "...", "accrual_rate": 0.025 } with ~50ms delay
+ * When the engine uses the registry, its lookups (see testRegistryLookups) and its
+ * behaviour under registry faults (see testRegistryFaults) are checked, not scored.
  */
 async function testSchemeRegistry(
   config: Config,
+  client: TargetClient,
   passedScenarioIds: Set<string>,
-): Promise<BonusFeatureResult> {
+): Promise<{ result: BonusFeatureResult; lookups?: SchemeRegistryLookupResults; faults?: SchemeRegistryFaultResults }> {
   const baseFixture = loadFixtureById('C07');
   if (!baseFixture || !passedScenarioIds.has('C07')) {
     return {
-      passed: false,
-      points: 0,
-      errors: ['C07 (full happy path) must pass correctness first to test scheme registry'],
+      result: {
+        passed: false,
+        points: 0,
+        errors: ['C07 (full happy path) must pass correctness first to test scheme registry'],
+      },
     };
   }
 
-  const mockAccrualRate = 0.025;
-  let requestCount = 0;
-
-  // Start mock scheme registry
-  const server = http.createServer((req, res) => {
-    requestCount++;
-    setTimeout(() => {
-      const schemeIdMatch = req.url?.match(/\/schemes\/(.+)/);
-      const schemeId = schemeIdMatch ? decodeURIComponent(schemeIdMatch[1]) : 'UNKNOWN';
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ scheme_id: schemeId, accrual_rate: mockAccrualRate }));
-    }, 50);
-  });
+  let registry: MockSchemeRegistry;
+  try {
+    registry = await startMockSchemeRegistry(REGISTRY_ACCRUAL_RATE);
+  } catch {
+    return { result: { passed: false, points: 0, errors: ['Could not start mock server'] } };
+  }
+  console.log(`    Mock Scheme Registry started on port ${registry.port}`);
 
   let container: any = null;
   let targetUrl = config.target;
 
   try {
-    // Start mock on random port
-    await new Promise<void>((resolve) => {
-      server.listen(0, '0.0.0.0', () => resolve());
-    });
-
-    const address = server.address() as net.AddressInfo;
-    if (!address) {
-      return { passed: false, points: 0, errors: ['Could not start mock server'] };
-    }
-
-    const mockPort = address.port;
-    console.log(`    Mock Scheme Registry started on port ${mockPort}`);
-
     if (config.coldStartImage) {
       // Docker mode: start a new container with the env var
       const Dockerode = require('dockerode');
@@ -285,19 +291,13 @@ async function testSchemeRegistry(
 
       // Use host.docker.internal (macOS/Windows) or 172.17.0.1 (Linux) to reach the host
       const hostAddress = process.platform === 'linux' ? '172.17.0.1' : 'host.docker.internal';
-      const registryUrl = `http://${hostAddress}:${mockPort}`;
+      const registryUrl = `http://${hostAddress}:${registry.port}`;
 
       console.log(`    Starting container with SCHEME_REGISTRY_URL=${registryUrl}`);
 
-      container = await docker.createContainer({
-        Image: config.coldStartImage,
-        Env: [`SCHEME_REGISTRY_URL=${registryUrl}`],
-        ExposedPorts: { '8080/tcp': {} },
-        HostConfig: {
-          PortBindings: {
-            '8080/tcp': [{ HostPort: String(containerPort) }],
-          },
-        },
+      container = await createTeamContainer(docker, config.coldStartImage, containerPort, {
+        limits: { cpuset: config.cpuset },
+        env: [`SCHEME_REGISTRY_URL=${registryUrl}`],
       });
       await container.start();
 
@@ -305,115 +305,304 @@ async function testSchemeRegistry(
       targetUrl = `http://localhost:${containerPort}`;
       const ready = await waitForTarget(targetUrl, baseFixture.request, 15000);
       if (!ready) {
-        return { passed: false, points: 0, errors: ['Container did not become ready within 15s'] };
+        return { result: { passed: false, points: 0, errors: ['Container did not become ready within 15s'] } };
       }
       console.log(`    Container ready at ${targetUrl}`);
     } else {
       // Non-Docker mode: send to existing target
       // The team must have started their engine with SCHEME_REGISTRY_URL pointing to us
       const hostAddress = 'localhost';
-      const registryUrl = `http://${hostAddress}:${mockPort}`;
+      const registryUrl = `http://${hostAddress}:${registry.port}`;
       console.log(`    No --cold-start-image provided. Assuming target was started with SCHEME_REGISTRY_URL=${registryUrl}`);
       console.log(`    (If not, restart your engine with this env var to pass this test)`);
     }
 
     // Send the C07 request to the target
     console.log(`    Sending request to ${targetUrl}...`);
-    const httpClient = createHttpClient(targetUrl);
-    const result = await sendCalculationRequest(baseFixture.request, httpClient);
+    // A container started for this test gets a client of its own
+    const registryClient = targetUrl === config.target ? client : createTargetClient(targetUrl);
+    try {
+      const result = await registryClient.send(baseFixture.request);
 
-    // Restore the original HTTP client target
-    createHttpClient(config.target);
+      if (result.error || !result.body) {
+        return { result: { passed: false, points: 0, errors: [`Request failed: ${result.error || 'empty response'}`] } };
+      }
 
-    if (result.error || !result.body) {
-      return { passed: false, points: 0, errors: [`Request failed: ${result.error || 'empty response'}`] };
-    }
+      const endSit = result.body.calculation_result?.end_situation?.situation;
+      if (!endSit?.dossier?.policies) {
+        return { result: { passed: false, points: 0, errors: ['No policies in response end_situation'] } };
+      }
 
-    const endSit = result.body.calculation_result?.end_situation?.situation;
-    if (!endSit?.dossier?.policies) {
-      return { passed: false, points: 0, errors: ['No policies in response end_situation'] };
-    }
+      const retResultRegistry = expectedPensions(baseFixture, REGISTRY_ACCRUAL_RATE);
+      const retResultDefault = expectedPensions(baseFixture, DEFAULT_ACCRUAL_RATE);
+
+      // Check if the engine used the registry accrual rate
+      const actualPolicies = endSit.dossier.policies;
+      let usedRegistryRate = true;
+      const errors: string[] = [];
+
+      for (const policy of actualPolicies) {
+        const expectedRegistryPension = retResultRegistry.get(policy.policy_id);
+        const expectedDefaultPension = retResultDefault.get(policy.policy_id);
+
+        if (expectedRegistryPension === undefined || policy.attainable_pension == null) continue;
+
+        if (Math.abs(policy.attainable_pension - expectedRegistryPension) < 0.01) {
+          continue; // Matches registry rate
+        }
 
-    // Derive policy data from the C07 fixture's expected end_situation (not hardcoded)
-    const expectedPolicies = baseFixture.expected.end_situation.dossier!.policies;
-    const policiesForCalc: PolicyForCalc[] = expectedPolicies.map(p => ({
-      policy_id: p.policy_id,
-      scheme_id: p.scheme_id,
-      employment_start_date: p.employment_start_date,
-      salary: p.salary,
-      part_time_factor: p.part_time_factor,
-    }));
-
-    // Derive retirement date from the C07 fixture's expected end_situation
-    const retirementDate = baseFixture.expected.end_situation.dossier!.retirement_date!;
-    const retResultRegistry = calculateRetirementBenefit(policiesForCalc, retirementDate, mockAccrualRate);
-    const retResultDefault = calculateRetirementBenefit(policiesForCalc, retirementDate, 0.02);
-
-    // Check if the engine used the registry accrual rate
-    const actualPolicies = endSit.dossier.policies;
-    let usedRegistryRate = true;
-    const errors: string[] = [];
-
-    for (const policy of actualPolicies) {
-      const expectedRegistryPension = retResultRegistry.policy_pensions.get(policy.policy_id);
-      const expectedDefaultPension = retResultDefault.policy_pensions.get(policy.policy_id);
-
-      if (expectedRegistryPension === undefined || policy.attainable_pension === null) continue;
-
-      if (Math.abs(policy.attainable_pension - expectedRegistryPension) < 0.01) {
-        continue; // Matches registry rate
+        usedRegistryRate = false;
+        if (expectedDefaultPension !== undefined && Math.abs(policy.attainable_pension - expectedDefaultPension) < 0.01) {
+          errors.push(`Policy ${policy.policy_id}: pension ${policy.attainable_pension.toFixed(2)} matches default rate (0.02), not registry rate (0.025). Expected ~${expectedRegistryPension.toFixed(2)}`);
+        } else {
+          errors.push(`Policy ${policy.policy_id}: pension ${policy.attainable_pension.toFixed(2)} matches neither default (~${expectedDefaultPension?.toFixed(2)}) nor registry rate (~${expectedRegistryPension.toFixed(2)})`);
+        }
       }
 
-      usedRegistryRate = false;
-      if (expectedDefaultPension !== undefined && Math.abs(policy.attainable_pension - expectedDefaultPension) < 0.01) {
-        errors.push(`Policy ${policy.policy_id}: pension ${policy.attainable_pension.toFixed(2)} matches default rate (0.02), not registry rate (0.025). Expected ~${expectedRegistryPension.toFixed(2)}`);
+      if (registry.calls.length === 0) {
+        errors.push('Mock registry received 0 requests — engine did not call the registry');
+        usedRegistryRate = false;
       } else {
-        errors.push(`Policy ${policy.policy_id}: pension ${policy.attainable_pension.toFixed(2)} matches neither default (~${expectedDefaultPension?.toFixed(2)}) nor registry rate (~${expectedRegistryPension.toFixed(2)})`);
+        console.log(`    Mock registry received ${registry.calls.length} request(s)`);
       }
+
+      const passed = usedRegistryRate && errors.length === 0;
+      return {
+        result: {
+          passed,
+          points: passed ? 5 : 0,
+          errors,
+          invariant_violations: checkInvariants(baseFixture.request, result.status === 200 ? result.body : null).map(v => `${baseFixture.id}: ${v}`),
+        },
+        // Lookups and fallback to 0.02 only mean something if the engine uses the registry at all
+        ...(passed ? {
+          lookups: await testRegistryLookups(registry, targetUrl, baseFixture),
+          faults: await testRegistryFaults(registry, targetUrl, baseFixture),
+        } : {}),
+      };
+    } finally {
+      if (registryClient !== client) registryClient.close();
     }
+  } finally {
+    await registry.close();
+    if (container) await removeContainer(container);
+  }
+}
 
-    if (requestCount === 0) {
-      errors.push('Mock registry received 0 requests — engine did not call the registry');
-      usedRegistryRate = false;
-    } else {
-      console.log(`    Mock registry received ${requestCount} request(s)`);
+/**
+ * Check how the engine looks up schemes, with scheme IDs it has not seen before:
+ * - caching: LOOKUP_BATCH_REQUESTS sequential requests with the same scheme IDs cause
+ *   at most MAX_FETCHES_PER_SCHEME registry calls per scheme
+ * - distinct schemes: every scheme ID of a request is fetched
+ * - per-scheme rates: with a different rate per scheme, each policy's pension is its
+ *   share of the dossier pension at its own scheme's rate
+ */
+async function testRegistryLookups(
+  registry: MockSchemeRegistry,
+  targetUrl: string,
+  baseFixture: TestFixture,
+): Promise<SchemeRegistryLookupResults> {
+  console.log('    Checking registry lookups (not scored)...');
+
+  const lookupClient = createTargetClient(targetUrl);
+  const runId = Date.now().toString(36).toUpperCase();
+  const errors: string[] = [];
+
+  try {
+    // Caching: the same scheme IDs in every request of the batch
+    const batch = withFreshSchemeIds(baseFixture.request, `CACHE-${runId}`);
+    const batchStart = registry.calls.length;
+    let sent = 0;
+    for (; sent < LOOKUP_BATCH_REQUESTS; sent++) {
+      const result = await lookupClient.send(batch.request);
+      if (result.error || result.status !== 200) {
+        errors.push(`Batch request ${sent + 1} failed: ${result.error ?? `HTTP ${result.status}`}`);
+        break;
+      }
+    }
+    const batchCalls = registry.calls.slice(batchStart).filter(id => batch.schemeIds.includes(id)).length;
+    const cachesLookups = sent === LOOKUP_BATCH_REQUESTS && batchCalls <= batch.schemeIds.length * MAX_FETCHES_PER_SCHEME;
+    if (sent === LOOKUP_BATCH_REQUESTS && !cachesLookups) {
+      errors.push(`${batchCalls} registry calls for ${sent} requests with the same ${batch.schemeIds.length} scheme IDs: lookups are not cached`);
+    }
+    logRegistryCheck('caching', cachesLookups, `${batchCalls} registry calls for ${sent} requests`);
+
+    // Distinct schemes, each with a rate of its own
+    const mixed = withFreshSchemeIds(baseFixture.request, `RATES-${runId}`);
+    const rates = new Map(mixed.schemeIds.map((id, i) => [id, PER_SCHEME_RATES[i % PER_SCHEME_RATES.length]]));
+    for (const [schemeId, rate] of rates) registry.setRate(schemeId, rate);
+
+    const mixedStart = registry.calls.length;
+    const result = await lookupClient.send(mixed.request);
+    const fetched = new Set(registry.calls.slice(mixedStart));
+    const missing = mixed.schemeIds.filter(id => !fetched.has(id));
+    for (const schemeId of rates.keys()) registry.setRate(schemeId, null);
+
+    const distinctSchemesFetched = missing.length === 0;
+    if (!distinctSchemesFetched) {
+      errors.push(`Scheme IDs not fetched from the registry: ${missing.join(', ')}`);
+    }
+    logRegistryCheck(
+      'distinct schemes',
+      distinctSchemesFetched,
+      `${mixed.schemeIds.length - missing.length}/${mixed.schemeIds.length} scheme IDs fetched`,
+    );
+
+    const rateErrors: string[] = [];
+    const policies = result.body?.calculation_result?.end_situation?.situation?.dossier?.policies ?? [];
+    if (result.error || result.status !== 200 || policies.length === 0) {
+      rateErrors.push(`Request with per-scheme rates failed: ${result.error ?? `HTTP ${result.status}, no policies`}`);
+    }
+    for (const policy of policies) {
+      const rate = rates.get(policy.scheme_id);
+      const expected = rate !== undefined ? expectedPensions(baseFixture, rate).get(policy.policy_id) : undefined;
+      if (rate === undefined || expected === undefined || policy.attainable_pension == null) {
+        rateErrors.push(`Policy ${policy.policy_id}: unexpected scheme ${policy.scheme_id} or no attainable_pension`);
+        continue;
+      }
+      if (Math.abs(policy.attainable_pension - expected) < 0.01) continue;
+
+      const usedRate = [...new Set(rates.values())].find(r =>
+        Math.abs(policy.attainable_pension! - expectedPensions(baseFixture, r).get(policy.policy_id)!) < 0.01
+      );
+      rateErrors.push(
+        `Policy ${policy.policy_id} (${policy.scheme_id}, rate ${rate}): pension ${policy.attainable_pension.toFixed(2)}, ` +
+        `expected ~${expected.toFixed(2)}${usedRate !== undefined ? ` (matches rate ${usedRate} of another scheme)` : ''}`
+      );
     }
+    errors.push(...rateErrors);
+    logRegistryCheck('per-scheme rates', rateErrors.length === 0, rateErrors[0] ?? `${policies.length} policies at their scheme's rate`);
 
     return {
-      passed: usedRegistryRate && errors.length === 0,
-      points: usedRegistryRate && errors.length === 0 ? 5 : 0,
+      batch_requests: sent,
+      batch_registry_calls: batchCalls,
+      caches_lookups: cachesLookups,
+      distinct_schemes_fetched: distinctSchemesFetched,
+      per_scheme_rates_applied: rateErrors.length === 0,
       errors,
     };
   } finally {
-    server.close();
-    if (container) {
-      try { await container.stop({ t: 1 }); } catch { /* ignore */ }
-      try { await container.remove({ force: true }); } catch { /* ignore */ }
-    }
+    lookupClient.close();
   }
 }
 
+function logRegistryCheck(name: string, passed: boolean, detail: string): void {
+  const status = passed ? '\x1b[32mPASS\x1b[0m' : '\x1b[31mFAIL\x1b[0m';
+  console.log(`      [${status}]  ${name.padEnd(16)} ${detail}`);
+}
+
 /**
- * Poll a target URL until it responds with HTTP 200, or timeout.
+ * Send C07 once per registry fault, each time with scheme IDs the engine has not seen
+ * (so no cached rate hides the fault), and check that the engine degrades gracefully:
+ * it answers within FAULT_RESPONSE_TIMEOUT_MS, either with the default rate applied
+ * (or, for a slow registry, the registry rate) or with a calculation message, and still
+ * answers C01 afterwards.
  */
-async function waitForTarget(
+async function testRegistryFaults(
+  registry: MockSchemeRegistry,
   targetUrl: string,
-  request: any,
-  timeoutMs: number,
-): Promise<boolean> {
-  const start = Date.now();
-  while (Date.now() - start < timeoutMs) {
-    try {
-      const response = await axios.post(`${targetUrl}/calculation-requests`, request, {
-        timeout: 2000,
-        headers: { 'Content-Type': 'application/json' },
-        validateStatus: () => true,
-      });
-      if (response.status === 200) return true;
-    } catch {
-      // Connection refused - keep polling
+  baseFixture: TestFixture,
+): Promise<SchemeRegistryFaultResults> {
+  console.log('    Checking behaviour with a failing registry (not scored)...');
+
+  const faultClient = createTargetClient(targetUrl, { timeoutMs: FAULT_RESPONSE_TIMEOUT_MS });
+  const liveness = loadFixtureById('C01');
+  const defaultPensions = expectedPensions(baseFixture, DEFAULT_ACCRUAL_RATE);
+  const registryPensions = expectedPensions(baseFixture, REGISTRY_ACCRUAL_RATE);
+  const runId = Date.now().toString(36).toUpperCase();
+  const checks: SchemeRegistryFaultCheck[] = [];
+
+  try {
+    for (const fault of SCHEME_REGISTRY_FAULTS) {
+      const { request, schemeIds } = withFreshSchemeIds(baseFixture.request, `${fault.toUpperCase()}-${runId}`);
+      for (const schemeId of schemeIds) registry.setFault(schemeId, fault);
+
+      const result = await faultClient.send(request);
+      const errors: string[] = [];
+      let outcome: SchemeRegistryFaultCheck['outcome'] = null;
+
+      if (result.error) {
+        errors.push(result.error.includes('timeout')
+          ? `No response within ${FAULT_RESPONSE_TIMEOUT_MS / 1000}s`
+          : `Request failed: ${result.error}`);
+      } else if ((result.body?.calculation_result?.messages?.length ?? 0) > 0) {
+        outcome = 'message';
+      } else if (result.status !== 200) {
+        errors.push(`HTTP ${result.status} without a calculation message`);
+      } else {
+        const policies = result.body?.calculation_result?.end_situation?.situation?.dossier?.policies ?? [];
+        if (pensionsMatch(policies, defaultPensions)) {
+          outcome = 'fallback';
+        } else if (fault === 'slow' && pensionsMatch(policies, registryPensions)) {
+          outcome = 'registry-rate';
+        } else {
+          errors.push('Pensions do not match the default rate (0.02) and no calculation message was reported');
+        }
+      }
+
+      for (const schemeId of schemeIds) registry.setFault(schemeId, null);
+
+      // A fault must not take the engine down or leave it stuck
+      if (liveness) {
+        const after = await faultClient.send(liveness.request);
+        if (after.error || after.status !== 200) {
+          errors.push(`Engine did not answer C01 afterwards: ${after.error ?? `HTTP ${after.status}`}`);
+        }
+      }
+
+      const check: SchemeRegistryFaultCheck = {
+        fault,
+        passed: errors.length === 0,
+        outcome: errors.length === 0 ? outcome : null,
+        elapsed_ms: result.error ? null : result.elapsedMs,
+        errors,
+      };
+      checks.push(check);
+
+      logRegistryCheck(fault, check.passed, check.passed ? `${check.outcome}, ${result.elapsedMs.toFixed(0)}ms` : errors[0]);
+    }
+  } finally {
+    faultClient.close();
+  }
+
+  return { passed: checks.filter(c => c.passed).length, total: checks.length, checks };
+}
+
+/**
+ * Expected attainable pension per policy ID of the fixture at the given accrual rate,
+ * derived from its expected end_situation (not hardcoded).
+ */
+function expectedPensions(fixture: TestFixture, accrualRate: number): Map<string, number> {
+  const dossier = fixture.expected.end_situation.dossier!;
+  const policiesForCalc: PolicyForCalc[] = dossier.policies.map(p => ({
+    policy_id: p.policy_id,
+    scheme_id: p.scheme_id,
+    employment_start_date: p.employment_start_date,
+    salary: p.salary,
+    part_time_factor: p.part_time_factor,
+  }));
+  return calculateRetirementBenefit(policiesForCalc, dossier.retirement_date!, accrualRate).policy_pensions;
+}
+
+function pensionsMatch(policies: Policy[], expected: Map<string, number>): boolean {
+  return policies.length > 0 && policies.every(policy => {
+    const pension = expected.get(policy.policy_id);
+    return pension !== undefined && policy.attainable_pension != null && Math.abs(policy.attainable_pension - pension) < 0.01;
+  });
+}
+
+/**
+ * Copy of the request with every scheme_id suffixed, and the new scheme IDs.
+ */
+function withFreshSchemeIds(request: CalculationRequest, suffix: string): { request: CalculationRequest; schemeIds: string[] } {
+  const copy: CalculationRequest = JSON.parse(JSON.stringify(request));
+  const schemeIds = new Set<string>();
+  for (const mutation of copy.calculation_instructions.mutations) {
+    const properties = mutation.mutation_properties;
+    if ('scheme_id' in properties && typeof properties.scheme_id === 'string') {
+      properties.scheme_id = `${properties.scheme_id}-${suffix}`;
+      schemeIds.add(properties.scheme_id);
     }
-    await new Promise(r => setTimeout(r, 100));
   }
-  return false;
+  return { request: copy, schemeIds: [...schemeIds] };
 }
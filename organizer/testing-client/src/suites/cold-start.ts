@@ -1,17 +1,60 @@
 /**
  * Cold start test.
- * Measures time from docker run to first successful HTTP 200 response.
+ * Measures time from docker run to first successful HTTP 200 response (scored), and
+ * breaks startup down into time to listen, to the first HTTP response and to the first
+ * correct C01 response, plus the latency of the first requests after startup.
+ *
+ * Resource test.
+ * Measures the footprint of the same image: its size, the container's memory at idle
+ * and under the throughput test, and the CPU time it spends per request. Memory and CPU
+ * under load are sampled during the performance suite's own throughput test when it
+ * runs against a container (--performance-container), else during a separate run of
+ * the same test.
  */
 
-import * as net from 'net';
 import { Config } from '../config';
 import { loadFixtureById } from '../helpers/fixture-loader';
-import { ColdStartResult } from '../types/results';
+import {
+  createTeamContainer,
+  removeContainer,
+  findFreePort,
+  waitForTarget,
+  sampleContainerStats,
+} from '../helpers/team-container';
+import { createTargetClient } from '../helpers/http-client';
+import { runThroughputTest } from './performance';
+import { validateResponse } from '../validation/response-validator';
+import { ColdStartResult, ColdStartBreakdown, ResourceResults, ThroughputStats } from '../types/results';
+import { TestFixture } from '../types/fixtures';
+import { CalculationResponse } from '../types/api';
+import * as net from 'net';
 import axios from 'axios';
 
 const POLL_INTERVAL_MS = 50;
 const MAX_WAIT_MS = 30000;
 
+/** How long to keep polling for a correct C01 response after the first HTTP 200. */
+const CORRECT_WAIT_MS = 5000;
+
+/** Timeout of one TCP connect when probing whether the container listens. */
+const LISTEN_PROBE_TIMEOUT_MS = 200;
+
+/** Successful responses timed from startup on to expose JIT and cache warm-up. */
+const WARMUP_REQUESTS = 10;
+
+/** Time the container is left alone after its first response before idle RSS is read. */
+const IDLE_SETTLE_MS = 5000;
+
+/** Interval between memory readings during the throughput test. */
+const STATS_INTERVAL_MS = 500;
+
+const MB = 1024 * 1024;
+
+/** Startup phases of one attempt; first_ok_ms is the scored time to the first HTTP 200. */
+interface ColdStartAttempt extends ColdStartBreakdown {
+  first_ok_ms: number | null;
+}
+
 /**
  * Run the cold start test.
  * Pre-condition: --cold-start-image parameter must be provided.
@@ -38,32 +81,41 @@ export async function runColdStartTest(config: Config): Promise<ColdStartResult>
   // Stop and remove any existing containers from this image.
   await stopExistingContainers(docker, config.coldStartImage);
 
-  const times: number[] = [];
+  const attempts: ColdStartAttempt[] = [];
 
   for (let attempt = 1; attempt <= 3; attempt++) {
     console.log(`  Attempt ${attempt}/3...`);
-    const time = await measureSingleColdStart(docker, config.coldStartImage, fixture.request);
-    if (time !== null) {
-      times.push(time);
-      console.log(`    Cold start time: ${time.toFixed(0)}ms`);
+    const result = await measureSingleColdStart(docker, config.coldStartImage, fixture, config.cpuset);
+    if (result.first_ok_ms !== null) {
+      attempts.push(result);
+      console.log(`    Cold start time: ${result.first_ok_ms.toFixed(0)}ms (${formatPhases(result)})`);
     } else {
       console.log(`    Failed to get response within ${MAX_WAIT_MS}ms`);
     }
   }
 
-  if (times.length === 0) {
+  if (attempts.length === 0) {
     console.log('  All cold start attempts failed');
     return { time_ms: null, points: 0 };
   }
 
-  // Take median
-  times.sort((a, b) => a - b);
-  const median = times[Math.floor(times.length / 2)];
+  const median = medianOf(attempts.map(a => a.first_ok_ms))!;
+  const breakdown: ColdStartBreakdown = {
+    listen_ms: medianOf(attempts.map(a => a.listen_ms)),
+    first_response_ms: medianOf(attempts.map(a => a.first_response_ms)),
+    first_correct_ms: medianOf(attempts.map(a => a.first_correct_ms)),
+    warmup_latencies_ms: Array.from({ length: WARMUP_REQUESTS }, (_, i) => medianOf(attempts.map(a => a.warmup_latencies_ms[i] ?? null)))
+      .filter((latency): latency is number => latency !== null),
+  };
 
   const points = scoreColdStart(median);
   console.log(`  Median cold start: ${median.toFixed(0)}ms → ${points} points`);
+  console.log(`  Median phases: ${formatPhases(breakdown)}`);
+  if (breakdown.warmup_latencies_ms.length > 0) {
+    console.log(`  Warm-up latency (first ${breakdown.warmup_latencies_ms.length} successful responses): ${breakdown.warmup_latencies_ms.map(ms => ms.toFixed(1)).join(', ')}ms`);
+  }
 
-  return { time_ms: median, points };
+  return { time_ms: median, points, breakdown };
 }
 
 function scoreColdStart(timeMs: number): number {
@@ -73,26 +125,6 @@ function scoreColdStart(timeMs: number): number {
   return 0;
 }
 
-/**
- * Find a free port by binding to port 0 (the OS picks one) then closing.
- * This is race-free compared to random port selection.
- */
-function findFreePort(): Promise<number> {
-  return new Promise((resolve, reject) => {
-    const server = net.createServer();
-    server.listen(0, '127.0.0.1', () => {
-      const address = server.address();
-      if (address && typeof address === 'object') {
-        const port = address.port;
-        server.close(() => resolve(port));
-      } else {
-        server.close(() => reject(new Error('Could not determine port')));
-      }
-    });
-    server.on('error', reject);
-  });
-}
-
 /**
  * Stop and remove any existing containers from the given image.
  * PRD FR-4.5: "Ensure no container from this image is running" before each cold start attempt.
@@ -102,17 +134,7 @@ async function stopExistingContainers(docker: any, imageName: string): Promise<v
     const containers = await docker.listContainers({ all: true });
     for (const containerInfo of containers) {
       if (containerInfo.Image === imageName) {
-        const container = docker.getContainer(containerInfo.Id);
-        try {
-          await container.stop({ t: 1 });
-        } catch {
-          // May already be stopped
-        }
-        try {
-          await container.remove({ force: true });
-        } catch {
-          // Best effort
-        }
+        await removeContainer(docker.getContainer(containerInfo.Id));
         console.log(`    Stopped existing container ${containerInfo.Id.substring(0, 12)} from ${imageName}`);
       }
     }
@@ -121,73 +143,346 @@ async function stopExistingContainers(docker: any, imageName: string): Promise<v
   }
 }
 
+/**
+ * Start a container and time its startup phases. first_ok_ms (the scored time) is
+ * null when no HTTP 200 arrived within MAX_WAIT_MS.
+ */
 async function measureSingleColdStart(
   docker: any,
   imageName: string,
-  request: any,
-): Promise<number | null> {
+  fixture: TestFixture,
+  cpuset: string | undefined,
+): Promise<ColdStartAttempt> {
   const port = await findFreePort();
+  const attempt: ColdStartAttempt = {
+    listen_ms: null,
+    first_response_ms: null,
+    first_ok_ms: null,
+    first_correct_ms: null,
+    warmup_latencies_ms: [],
+  };
 
   let container: any = null;
+  let probing = true;
+  let listenProbe: Promise<void> = Promise.resolve();
 
   try {
     // Create and start container
-    container = await docker.createContainer({
-      Image: imageName,
-      ExposedPorts: { '8080/tcp': {} },
-      HostConfig: {
-        PortBindings: {
-          '8080/tcp': [{ HostPort: String(port) }],
-        },
-      },
-    });
+    container = await createTeamContainer(docker, imageName, port, { limits: { cpuset } });
 
     const startTime = process.hrtime.bigint();
+    const elapsedMs = () => Number(process.hrtime.bigint() - startTime) / 1_000_000;
     await container.start();
 
-    // Poll until we get a successful response
-    const targetUrl = `http://localhost:${port}/calculation-requests`;
-    let elapsed = 0;
+    // Docker's userland proxy accepts connections on the published host port before the
+    // server listens, so listening is probed on the container's own address, alongside
+    // the HTTP polling so a slow probe does not delay it
+    listenProbe = (async () => {
+      const address = await containerAddress(container);
+      while (address && probing && attempt.listen_ms === null) {
+        if (await acceptsConnections(address, 8080)) {
+          attempt.listen_ms = elapsedMs();
+        } else {
+          await sleep(POLL_INTERVAL_MS);
+        }
+      }
+    })();
 
-    while (elapsed < MAX_WAIT_MS) {
-      try {
-        const response = await axios.post(targetUrl, request, {
-          timeout: 2000,
-          headers: { 'Content-Type': 'application/json' },
-          validateStatus: () => true,
-        });
+    // Poll until C01 is answered correctly; once a 200 arrived, give up on a correct
+    // answer after CORRECT_WAIT_MS
+    const targetUrl = `http://localhost:${port}/calculation-requests`;
+    let deadline = MAX_WAIT_MS;
 
+    while (elapsedMs() < deadline) {
+      const response = await postRequest(targetUrl, fixture.request);
+      if (response) {
+        const now = elapsedMs();
+        attempt.first_response_ms ??= now;
         if (response.status === 200) {
-          const endTime = process.hrtime.bigint();
-          const totalMs = Number(endTime - startTime) / 1_000_000;
-          return totalMs;
+          if (attempt.first_ok_ms === null) {
+            attempt.first_ok_ms = now;
+            deadline = Math.min(MAX_WAIT_MS, now + CORRECT_WAIT_MS);
+          }
+          if (attempt.warmup_latencies_ms.length < WARMUP_REQUESTS) {
+            attempt.warmup_latencies_ms.push(response.elapsed_ms);
+          }
+        }
+        if (validateResponse(fixture, response.status, parseBody(response.body), response.body).passed) {
+          attempt.first_correct_ms = now;
+          break;
         }
-      } catch {
-        // Connection refused or timeout - keep polling
       }
 
       await sleep(POLL_INTERVAL_MS);
-      elapsed += POLL_INTERVAL_MS;
     }
 
-    return null;
+    // Top up the warm-up latencies when polling saw fewer successful responses
+    if (attempt.first_ok_ms !== null) {
+      while (attempt.warmup_latencies_ms.length < WARMUP_REQUESTS) {
+        const response = await postRequest(targetUrl, fixture.request);
+        if (response?.status !== 200) break;
+        attempt.warmup_latencies_ms.push(response.elapsed_ms);
+      }
+    }
+
+    return attempt;
   } finally {
+    probing = false;
+    await listenProbe;
+    // A response proves the port was listening, even if the probe had not noticed yet
+    if (attempt.listen_ms !== null && attempt.first_response_ms !== null) {
+      attempt.listen_ms = Math.min(attempt.listen_ms, attempt.first_response_ms);
+    }
     // Cleanup: stop and remove container
-    if (container) {
-      try {
-        await container.stop({ t: 1 });
-      } catch {
-        // May already be stopped
-      }
-      try {
-        await container.remove({ force: true });
-      } catch {
-        // Best effort
+    if (container) await removeContainer(container);
+  }
+}
+
+/**
+ * POST a request, returning its status, raw body and latency, or null when no HTTP
+ * response arrived (connection refused, reset or timed out).
+ */
+async function postRequest(
+  url: string,
+  request: unknown,
+): Promise<{ status: number; body: string; elapsed_ms: number } | null> {
+  const start = process.hrtime.bigint();
+  try {
+    const response = await axios.post(url, request, {
+      timeout: 2000,
+      headers: { 'Content-Type': 'application/json' },
+      validateStatus: () => true,
+      transformResponse: (data: string) => data,
+    });
+    return {
+      status: response.status,
+      body: String(response.data ?? ''),
+      elapsed_ms: Number(process.hrtime.bigint() - start) / 1_000_000,
+    };
+  } catch {
+    // Connection refused or timeout - keep polling
+    return null;
+  }
+}
+
+function parseBody(body: string): CalculationResponse | null {
+  try {
+    return JSON.parse(body) as CalculationResponse;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * IP address of the container on its Docker network, or null when not known.
+ */
+async function containerAddress(container: any): Promise<string | null> {
+  try {
+    const info = await container.inspect();
+    const networks = Object.values(info.NetworkSettings?.Networks ?? {}) as any[];
+    return info.NetworkSettings?.IPAddress || networks.find(n => n.IPAddress)?.IPAddress || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a TCP connection to host:port is accepted within LISTEN_PROBE_TIMEOUT_MS.
+ */
+function acceptsConnections(host: string, port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = net.connect({ host, port, timeout: LISTEN_PROBE_TIMEOUT_MS });
+    const done = (accepted: boolean) => {
+      socket.destroy();
+      resolve(accepted);
+    };
+    socket.once('connect', () => done(true));
+    socket.once('timeout', () => done(false));
+    socket.once('error', () => done(false));
+  });
+}
+
+/**
+ * Median of the non-null values (the upper one for an even count), or null when there are none.
+ */
+function medianOf(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  return present.length > 0 ? present[Math.floor(present.length / 2)] : null;
+}
+
+function formatPhases(phases: Pick<ColdStartBreakdown, 'listen_ms' | 'first_response_ms' | 'first_correct_ms'>): string {
+  const ms = (value: number | null) => value !== null ? `${value.toFixed(0)}ms` : 'N/A';
+  return `listen ${ms(phases.listen_ms)}, first response ${ms(phases.first_response_ms)}, ` +
+    `first correct ${ms(phases.first_correct_ms)}`;
+}
+
+// ============ Resources ============
+
+/** Memory and CPU use of a container during a throughput test. */
+export interface LoadFootprint {
+  requests: number;
+  peak_rss_bytes: number | null;
+  load_cpu_ns: number | null;
+  total_cpu_ns: number | null;
+}
+
+/**
+ * Run the resource test: start a container of --cold-start-image and read its idle RSS.
+ * Memory and CPU under load come from throughputLoad, sampled during the performance
+ * suite's throughput test, or else from a separate throughput test against this container.
+ * Scored separately, not part of the total.
+ */
+export async function runResourceTest(
+  config: Config,
+  scenarios: TestFixture[],
+  throughputLoad: LoadFootprint | null,
+): Promise<ResourceResults> {
+  const image = config.coldStartImage!;
+  console.log(`\n  Running resource test for image: ${image}`);
+
+  const Dockerode = require('dockerode');
+  const docker = new Dockerode();
+
+  let imageSize: number | null = null;
+  try {
+    imageSize = (await docker.getImage(image).inspect()).Size ?? null;
+  } catch {
+    console.log('    \x1b[33m→ Could not inspect the image; size not measured\x1b[0m');
+  }
+
+  let idleRss: number | null = null;
+  let load: LoadFootprint = { requests: 0, peak_rss_bytes: null, load_cpu_ns: null, total_cpu_ns: null };
+
+  const port = await findFreePort();
+  let container: any = null;
+  try {
+    container = await createTeamContainer(docker, image, port, { limits: { cpuset: config.cpuset } });
+    await container.start();
+
+    const targetUrl = `http://localhost:${port}`;
+    if (await waitForTarget(targetUrl, loadFixtureById('C01')?.request, MAX_WAIT_MS)) {
+      await sleep(IDLE_SETTLE_MS);
+      idleRss = (await sampleContainerStats(container)).memory_rss_bytes;
+
+      if (throughputLoad) {
+        load = throughputLoad;
+      } else if (scenarios.length > 0) {
+        console.log(`    Running a separate ${config.throughputDuration}s throughput test for memory and CPU under load...`);
+        load = await measureSeparateLoad(config, container, targetUrl, scenarios);
+      } else {
+        console.log('    \x1b[33m→ No passing correctness scenarios; load footprint not measured\x1b[0m');
       }
+    } else {
+      console.log(`    Container did not respond within ${MAX_WAIT_MS}ms; memory and CPU not measured`);
     }
+  } catch (err) {
+    console.log(`    Could not start the container: ${(err as Error).message}; memory and CPU not measured`);
+  } finally {
+    if (container) await removeContainer(container);
+  }
+
+  const cpuMsPerRequest = load.load_cpu_ns != null && load.requests > 0
+    ? load.load_cpu_ns / 1e6 / load.requests
+    : null;
+  const scores = {
+    image_size: scoreTier(imageSize, 100 * MB, 250 * MB),
+    idle_rss: scoreTier(idleRss, 64 * MB, 256 * MB),
+    peak_rss: scoreTier(load.peak_rss_bytes, 128 * MB, 512 * MB),
+    cpu_per_request: scoreTier(cpuMsPerRequest, 0.5, 2),
+  };
+  const points = scores.image_size + scores.idle_rss + scores.peak_rss + scores.cpu_per_request;
+
+  console.log(`    Image size: ${formatMegabytes(imageSize)}`);
+  console.log(`    Idle RSS: ${formatMegabytes(idleRss)}, peak RSS under load: ${formatMegabytes(load.peak_rss_bytes)}`);
+  console.log(
+    `    CPU: ${cpuMsPerRequest != null ? `${cpuMsPerRequest.toFixed(3)}ms` : 'N/A'} per request ` +
+    `over ${load.requests} requests${throughputLoad ? '' : ' of the separate run'} → ${points} points`
+  );
+
+  return {
+    image_size_bytes: imageSize,
+    idle_rss_bytes: idleRss,
+    peak_rss_bytes: load.peak_rss_bytes,
+    load_cpu_seconds: load.load_cpu_ns != null ? load.load_cpu_ns / 1e9 : null,
+    total_cpu_seconds: load.total_cpu_ns != null ? load.total_cpu_ns / 1e9 : null,
+    load_requests: load.requests,
+    load_source: throughputLoad ? 'throughput-test' : 'separate-run',
+    cpu_ms_per_request: cpuMsPerRequest,
+    scores,
+    points,
+    max: 8,
+  };
+}
+
+/**
+ * Run the throughput test alone against the container and sample its stats meanwhile.
+ */
+async function measureSeparateLoad(
+  config: Config,
+  container: any,
+  targetUrl: string,
+  scenarios: TestFixture[],
+): Promise<LoadFootprint> {
+  const client = createTargetClient(targetUrl);
+  try {
+    return (await sampleLoadFootprint(container, () => runThroughputTest(config, client, scenarios))).footprint;
+  } catch (err) {
+    console.log(`    \x1b[33m→ Load failed: ${(err as Error).message}\x1b[0m`);
+    return { requests: 0, peak_rss_bytes: null, load_cpu_ns: null, total_cpu_ns: null };
+  } finally {
+    client.close();
   }
 }
 
+/**
+ * Run a throughput test and sample the container's memory and CPU until it ends.
+ * Rejects when the test fails.
+ */
+export async function sampleLoadFootprint(
+  container: any,
+  load: () => Promise<ThroughputStats>,
+): Promise<{ throughput: ThroughputStats; footprint: LoadFootprint }> {
+  const before = await sampleContainerStats(container);
+  let peakRss = before.memory_rss_bytes;
+  let running = true;
+
+  const run = load().finally(() => { running = false; });
+  // Awaited once the sampling loop ends; a failure must not count as unhandled before that
+  run.catch(() => {});
+
+  while (running) {
+    const { memory_rss_bytes } = await sampleContainerStats(container);
+    if (memory_rss_bytes != null) peakRss = Math.max(peakRss ?? 0, memory_rss_bytes);
+    await sleep(STATS_INTERVAL_MS);
+  }
+  const throughput = await run;
+  const after = await sampleContainerStats(container);
+
+  return {
+    throughput,
+    footprint: {
+      requests: throughput.total_requests,
+      peak_rss_bytes: peakRss,
+      load_cpu_ns: before.cpu_time_ns != null && after.cpu_time_ns != null ? after.cpu_time_ns - before.cpu_time_ns : null,
+      total_cpu_ns: after.cpu_time_ns,
+    },
+  };
+}
+
+/**
+ * 2 points below the first threshold, 1 below the second, otherwise (or unmeasured) 0.
+ */
+function scoreTier(value: number | null, full: number, partial: number): number {
+  if (value == null) return 0;
+  if (value < full) return 2;
+  if (value < partial) return 1;
+  return 0;
+}
+
+function formatMegabytes(bytes: number | null): string {
+  return bytes != null ? `${(bytes / MB).toFixed(1)}MB` : 'N/A';
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -5,22 +5,23 @@
 
 import { Config } from '../config';
 import { getCorrectnessFixtures } from '../helpers/fixture-loader';
-import { sendCalculationRequest } from '../helpers/http-client';
+import { TargetClient, RequestResult } from '../helpers/http-client';
 import { validateResponse } from '../validation/response-validator';
+import { checkInvariants } from '../validation/invariants';
 import { ScenarioResult, CorrectnessResults } from '../types/results';
 import { TestFixture } from '../types/fixtures';
 
 /**
  * Run the correctness test suite against the target.
  */
-export async function runCorrectnessTests(config: Config): Promise<CorrectnessResults> {
+export async function runCorrectnessTests(config: Config, client: TargetClient): Promise<CorrectnessResults> {
   const fixtures = getCorrectnessFixtures();
   const results: ScenarioResult[] = [];
 
   console.log(`\n  Running ${fixtures.length} correctness scenarios...\n`);
 
   for (const fixture of fixtures) {
-    const result = await runSingleScenario(fixture, config);
+    const result = await runSingleScenario(client, fixture, config);
     results.push(result);
 
     const status = result.passed ? '\x1b[32mPASS\x1b[0m' : '\x1b[31mFAIL\x1b[0m';
@@ -35,6 +36,18 @@ export async function runCorrectnessTests(config: Config): Promise<CorrectnessRe
       // Show first error even without verbose
       console.log(`    \x1b[33m→ ${result.errors[0]}\x1b[0m`);
     }
+
+    const violations = result.contract_violations ?? [];
+    for (const violation of config.verbose ? violations : violations.slice(0, 1)) {
+      console.log(`    \x1b[36m→ contract ${violation}\x1b[0m`);
+    }
+    if (!config.verbose && violations.length > 1) {
+      console.log(`    \x1b[36m  (+${violations.length - 1} more contract violations, use --verbose)\x1b[0m`);
+    }
+
+    for (const violation of result.invariant_violations ?? []) {
+      console.log(`    \x1b[35m→ invariant ${violation}\x1b[0m`);
+    }
   }
 
   const total = results.reduce((sum, r) => sum + r.points, 0);
@@ -48,11 +61,12 @@ export async function runCorrectnessTests(config: Config): Promise<CorrectnessRe
 }
 
 async function runSingleScenario(
+  client: TargetClient,
   fixture: TestFixture,
   config: Config,
 ): Promise<ScenarioResult> {
   try {
-    const result = await sendCalculationRequest(fixture.request);
+    const result = await client.send(fixture.request);
 
     if (result.error) {
       return {
@@ -63,6 +77,7 @@ async function runSingleScenario(
         max_points: fixture.points,
         errors: [`Request failed: ${result.error}`],
         response_time_ms: result.elapsedMs,
+        request_bytes: result.requestBytes,
       };
     }
 
@@ -81,7 +96,10 @@ async function runSingleScenario(
       points: validation.passed ? fixture.points : 0,
       max_points: fixture.points,
       errors: validation.errors,
+      contract_violations: validation.contractViolations,
+      invariant_violations: checkInvariants(fixture.request, result.status === 200 ? result.body : null),
       response_time_ms: result.elapsedMs,
+      ...payloadSizes(result),
     };
   } catch (err) {
     return {
@@ -94,3 +112,20 @@ async function runSingleScenario(
     };
   }
 }
+
+/**
+ * Request and response body sizes, and the compression ratio when the target gzipped the response.
+ */
+function payloadSizes(
+  result: RequestResult,
+): Pick<ScenarioResult, 'request_bytes' | 'response_bytes' | 'encoded_response_bytes' | 'compression_ratio'> {
+  const compressed = result.contentEncoding !== null && result.contentEncoding !== 'identity';
+  return {
+    request_bytes: result.requestBytes,
+    response_bytes: result.responseBytes,
+    encoded_response_bytes: result.encodedResponseBytes,
+    compression_ratio: compressed && result.encodedResponseBytes > 0
+      ? result.responseBytes / result.encodedResponseBytes
+      : null,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Differential test suite.
+ * Sends randomly generated requests to the target and compares each response
+ * with the reference engine. Failing requests are shrunk to a minimal mutation
+ * list and written out as fixture files that reproduce the problem.
+ */
+
+import * as path from 'path';
+import { Config } from '../config';
+import { TargetClient } from '../helpers/http-client';
+import { createRandom, generateRandomRequest } from '../helpers/request-generator';
+import { buildFixture, writeFixture } from '../helpers/fixture-builder';
+import { validateResponse } from '../validation/response-validator';
+import { checkInvariants } from '../validation/invariants';
+import { CalculationRequest } from '../types/api';
+import { TestFixture } from '../types/fixtures';
+import { DifferentialResults, DifferentialFailure } from '../types/results';
+
+/** Only the first N failures are shrunk and written out (shrinking costs many requests). */
+const MAX_SHRUNK_FAILURES = 10;
+
+/** Upper bound on target requests spent shrinking a single failure. */
+const MAX_SHRINK_ATTEMPTS = 200;
+
+/** Only the invariant violations of the first N offending responses are kept. */
+const MAX_REPORTED_INVARIANT_RESPONSES = 10;
+
+interface RequestCheck {
+  errors: string[];
+  invariantViolations: string[];
+}
+
+/**
+ * Run the differential test suite against the target.
+ */
+export async function runDifferentialTests(config: Config, client: TargetClient): Promise<DifferentialResults> {
+  const total = config.differentialCount;
+  const rng = createRandom(config.seed);
+  const failures: DifferentialFailure[] = [];
+  const invariantViolations: string[] = [];
+  let invariantViolationCount = 0;
+  let failed = 0;
+
+  console.log(`\n  Running ${total} generated requests (seed ${config.seed})...\n`);
+
+  const progressStep = Math.max(1, Math.floor(total / 10));
+
+  for (let i = 1; i <= total; i++) {
+    const request = generateRandomRequest(rng);
+    const { errors, invariantViolations: violations } = await checkRequest(client, request, `D${i}`);
+
+    if (violations.length > 0) {
+      invariantViolationCount++;
+      if (invariantViolationCount <= MAX_REPORTED_INVARIANT_RESPONSES) {
+        invariantViolations.push(...violations.map(v => `#${i}: ${v}`));
+        console.log(`  \x1b[35mINVARIANT\x1b[0m  request #${i}: ${violations[0]}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      failed++;
+      if (failures.length < MAX_SHRUNK_FAILURES) {
+        const failure = await shrinkAndRecord(config, client, request, errors, i);
+        failures.push(failure);
+        console.log(
+          `  \x1b[31mFAIL\x1b[0m  request #${i}: ${failure.original_mutation_count} → ${failure.shrunk_mutation_count} mutations, written to ${failure.fixture_path}`
+        );
+        console.log(`    \x1b[33m→ ${failure.errors[0]}\x1b[0m`);
+      }
+    }
+
+    if (i % progressStep === 0 || i === total) {
+      console.log(`  Progress: ${i}/${total} (${failed} failures)`);
+    }
+  }
+
+  return {
+    seed: config.seed,
+    total,
+    passed: total - failed,
+    failed,
+    failures,
+    invariant_violation_count: invariantViolationCount,
+    invariant_violations: invariantViolations,
+  };
+}
+
+/**
+ * Send a request to the target, validate it against the reference result and check
+ * the response invariants. `errors` is empty when the target agrees with the reference.
+ */
+async function checkRequest(client: TargetClient, request: CalculationRequest, id: string): Promise<RequestCheck> {
+  const fixture = toFixture(request, id, 'Differential check', '');
+  const result = await client.send(request);
+
+  if (result.error) {
+    return { errors: [`Request failed: ${result.error}`], invariantViolations: [] };
+  }
+  return {
+    errors: validateResponse(fixture, result.status, result.body, result.rawBody).errors,
+    invariantViolations: checkInvariants(request, result.status === 200 ? result.body : null),
+  };
+}
+
+/**
+ * Greedily remove mutations while the target still disagrees with the reference,
+ * then write the minimal request out as a fixture.
+ */
+async function shrinkAndRecord(
+  config: Config,
+  client: TargetClient,
+  request: CalculationRequest,
+  errors: string[],
+  requestNumber: number,
+): Promise<DifferentialFailure> {
+  let current = request;
+  let currentErrors = errors;
+  let attempts = 0;
+  let progress = true;
+
+  while (progress && attempts < MAX_SHRINK_ATTEMPTS) {
+    progress = false;
+    const mutations = current.calculation_instructions.mutations;
+
+    for (let i = mutations.length - 1; i >= 0 && mutations.length > 1 && attempts < MAX_SHRINK_ATTEMPTS; i--) {
+      const candidate: CalculationRequest = {
+        ...current,
+        calculation_instructions: {
+          mutations: current.calculation_instructions.mutations.filter((_, j) => j !== i),
+        },
+      };
+      attempts++;
+
+      const candidateErrors = (await checkRequest(client, candidate, `D${requestNumber}`)).errors;
+      if (candidateErrors.length > 0) {
+        current = candidate;
+        currentErrors = candidateErrors;
+        progress = true;
+        break;
+      }
+    }
+  }
+
+  const id = `D${config.seed}-${requestNumber}`;
+  const fixture = toFixture(
+    current,
+    id,
+    `Differential failure #${requestNumber} (seed ${config.seed})`,
+    `Shrunk from ${request.calculation_instructions.mutations.length} generated mutations. First error: ${currentErrors[0]}`,
+  );
+  const fixturePath = writeFixture(fixture, config.differentialOutput, `${id}.json`);
+
+  return {
+    fixture_path: path.relative(process.cwd(), fixturePath),
+    original_mutation_count: request.calculation_instructions.mutations.length,
+    shrunk_mutation_count: current.calculation_instructions.mutations.length,
+    errors: currentErrors,
+  };
+}
+
+function toFixture(request: CalculationRequest, id: string, name: string, description: string): TestFixture {
+  return buildFixture({ id, name, description, points: 0, category: 'correctness' }, request);
+}
@@ -0,0 +1,263 @@
+/**
+ * Metamorphic test suite.
+ * Derives follow-up requests from passing correctness fixtures and checks that the
+ * target's two responses relate as they must (e.g. doubling every salary doubles
+ * every attainable_pension), without needing expected values for the follow-up.
+ */
+
+import { Config } from '../config';
+import { getCorrectnessFixtures } from '../helpers/fixture-loader';
+import { TargetClient } from '../helpers/http-client';
+import { createRandom, randomUuid, Random } from '../helpers/request-generator';
+import { compareSituations } from '../validation/situation-comparator';
+import {
+  CalculationRequest,
+  CalculationResponse,
+  CalculationMutation,
+  AddPolicyProperties,
+  ApplyIndexationProperties,
+  Policy,
+} from '../types/api';
+import { MetamorphicResults, MetamorphicCheck } from '../types/results';
+
+const NUMERIC_TOLERANCE = 0.01;
+
+/** Factor applied to every salary by the scale-salaries relation. */
+const SALARY_SCALE = 3;
+
+/** A scheme ID no fixture uses, for the no-matching-indexation relation. */
+const UNUSED_SCHEME_ID = 'METAMORPHIC-UNUSED-SCHEME';
+
+interface MetamorphicRelation {
+  name: string;
+  /**
+   * Derive the follow-up request from a source request and the target's response to it.
+   * Returns null when the relation does not apply to this fixture.
+   */
+  derive: (request: CalculationRequest, source: CalculationResponse, rng: Random) => CalculationRequest | null;
+  /** Compare the source and follow-up responses. Returns violations (empty when the relation holds). */
+  check: (source: CalculationResponse, followUp: CalculationResponse) => string[];
+}
+
+/**
+ * Run the metamorphic test suite on the passing correctness fixtures.
+ */
+export async function runMetamorphicTests(
+  config: Config,
+  client: TargetClient,
+  passedScenarioIds: Set<string>,
+): Promise<MetamorphicResults> {
+  const fixtures = getCorrectnessFixtures().filter(f => passedScenarioIds.has(f.id));
+  const rng = createRandom(config.seed);
+  const checks: MetamorphicCheck[] = [];
+
+  console.log(`\n  Deriving follow-up requests from ${fixtures.length} passing scenarios...\n`);
+
+  for (const fixture of fixtures) {
+    const sourceResult = await client.send(fixture.request);
+    if (sourceResult.error || !sourceResult.body) continue;
+    const source = sourceResult.body;
+
+    for (const relation of RELATIONS) {
+      const followUpRequest = relation.derive(fixture.request, source, rng);
+      if (!followUpRequest) continue;
+
+      const followUpResult = await client.send(followUpRequest);
+      const errors = followUpResult.error || !followUpResult.body
+        ? [`Follow-up request failed: ${followUpResult.error ?? `HTTP ${followUpResult.status}`}`]
+        : relation.check(source, followUpResult.body);
+
+      const check: MetamorphicCheck = {
+        relation: relation.name,
+        fixture_id: fixture.id,
+        passed: errors.length === 0,
+        errors,
+      };
+      checks.push(check);
+
+      const status = check.passed ? '\x1b[32mPASS\x1b[0m' : '\x1b[31mFAIL\x1b[0m';
+      console.log(`  [${status}]  ${fixture.id}  ${relation.name}`);
+      if (!check.passed) {
+        for (const err of config.verbose ? errors : errors.slice(0, 1)) {
+          console.log(`    \x1b[33m→ ${err}\x1b[0m`);
+        }
+      }
+    }
+  }
+
+  const passed = checks.filter(c => c.passed).length;
+  return {
+    total: checks.length,
+    passed,
+    failed: checks.length - passed,
+    checks,
+  };
+}
+
+// ============ Relations ============
+
+const RELATIONS: MetamorphicRelation[] = [
+  {
+    // Indexing by p equals indexing twice by sqrt(1 + p) - 1
+    name: 'split-indexation',
+    derive: (request, source, rng) => {
+      const mutations = request.calculation_instructions.mutations;
+      const splittable = (m: CalculationMutation) =>
+        m.mutation_definition_name === 'apply_indexation' &&
+        (m.mutation_properties as ApplyIndexationProperties).percentage > -1;
+      if (!isSuccess(source) || !mutations.some(splittable)) return null;
+
+      return withMutations(request, mutations.flatMap(m => {
+        if (!splittable(m)) return [m];
+        const props = m.mutation_properties as ApplyIndexationProperties;
+        const half = { ...props, percentage: Math.sqrt(1 + props.percentage) - 1 };
+        return [
+          { ...m, mutation_properties: half },
+          { ...m, mutation_id: randomUuid(rng), mutation_properties: half },
+        ] as CalculationMutation[];
+      }));
+    },
+    check: (source, followUp) => [
+      ...outcomeErrors(source, followUp),
+      ...situationErrors(source, followUp),
+    ],
+  },
+  {
+    // The order in which policies are added must not change the total pension.
+    // Only consecutive add_policy mutations are reversed: moving a policy across an
+    // indexation changes which policies it applies to.
+    name: 'reorder-add-policy',
+    derive: (request, source) => {
+      const mutations = request.calculation_instructions.mutations;
+      const runs = addPolicyRuns(mutations).filter(run => run.length >= 2);
+      const hasRetirement = mutations.some(m => m.mutation_definition_name === 'calculate_retirement_benefit');
+      if (!isSuccess(source) || !hasRetirement || runs.length === 0) return null;
+
+      const reordered = [...mutations];
+      for (const run of runs) {
+        run.forEach((index, i) => {
+          reordered[index] = mutations[run[run.length - 1 - i]];
+        });
+      }
+      return withMutations(request, reordered);
+    },
+    check: (source, followUp) => {
+      const errors = outcomeErrors(source, followUp);
+      const expected = totalPension(source);
+      const actual = totalPension(followUp);
+      if (Math.abs(expected - actual) > NUMERIC_TOLERANCE) {
+        errors.push(`Total attainable_pension changed from ${expected} to ${actual} after reordering add_policy mutations`);
+      }
+      return errors;
+    },
+  },
+  {
+    // Pensions are linear in salary
+    name: 'scale-salaries',
+    derive: (request, source) => {
+      const mutations = request.calculation_instructions.mutations;
+      const hasRetirement = mutations.some(m => m.mutation_definition_name === 'calculate_retirement_benefit');
+      if (!isSuccess(source) || !hasRetirement) return null;
+
+      return withMutations(request, mutations.map(m => {
+        if (m.mutation_definition_name !== 'add_policy') return m;
+        const props = m.mutation_properties as AddPolicyProperties;
+        return { ...m, mutation_properties: { ...props, salary: props.salary * SALARY_SCALE } } as CalculationMutation;
+      }));
+    },
+    check: (source, followUp) => {
+      const errors = outcomeErrors(source, followUp);
+      const sourcePolicies = policies(source);
+      const followUpPolicies = policies(followUp);
+      sourcePolicies.forEach((policy, i) => {
+        const expected = (policy.attainable_pension ?? 0) * SALARY_SCALE;
+        const actual = followUpPolicies[i]?.attainable_pension ?? 0;
+        if (Math.abs(expected - actual) > NUMERIC_TOLERANCE * SALARY_SCALE) {
+          errors.push(
+            `policies[${i}].attainable_pension: expected ${SALARY_SCALE} × ${policy.attainable_pension} = ${expected}, got ${actual}`
+          );
+        }
+      });
+      return errors;
+    },
+  },
+  {
+    // A filtered indexation matching no policy leaves the situation unchanged and warns
+    name: 'no-matching-indexation',
+    derive: (request, source, rng) => {
+      const mutations = request.calculation_instructions.mutations;
+      const hasPolicy = mutations.some(m => m.mutation_definition_name === 'add_policy');
+      const last = mutations[mutations.length - 1];
+      if (!isSuccess(source) || !hasPolicy || !('dossier_id' in last)) return null;
+
+      return withMutations(request, [...mutations, {
+        mutation_id: randomUuid(rng),
+        mutation_definition_name: 'apply_indexation',
+        mutation_type: 'DOSSIER',
+        actual_at: last.actual_at,
+        dossier_id: last.dossier_id,
+        mutation_properties: { percentage: 0.05, scheme_id: UNUSED_SCHEME_ID },
+      }]);
+    },
+    check: (source, followUp) => {
+      const errors = outcomeErrors(source, followUp);
+      errors.push(...situationErrors(source, followUp));
+
+      const sourceCodes = source.calculation_result.messages.map(m => m.code);
+      const followUpMessages = followUp.calculation_result.messages ?? [];
+      const added = followUpMessages.slice(sourceCodes.length);
+      if (added.length !== 1 || added[0].code !== 'NO_MATCHING_POLICIES' || added[0].level !== 'WARNING') {
+        errors.push(
+          `Expected one additional WARNING NO_MATCHING_POLICIES, got [${added.map(m => `${m.level} ${m.code}`).join(', ')}]`
+        );
+      }
+      return errors;
+    },
+  },
+];
+
+// ============ Helpers ============
+
+function withMutations(request: CalculationRequest, mutations: CalculationMutation[]): CalculationRequest {
+  return { ...request, calculation_instructions: { mutations } };
+}
+
+/**
+ * Indexes of the add_policy mutations, grouped into runs of consecutive ones.
+ */
+function addPolicyRuns(mutations: CalculationMutation[]): number[][] {
+  const runs: number[][] = [];
+  mutations.forEach((m, i) => {
+    if (m.mutation_definition_name !== 'add_policy') return;
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === i - 1) run.push(i);
+    else runs.push([i]);
+  });
+  return runs;
+}
+
+function isSuccess(response: CalculationResponse): boolean {
+  return response.calculation_metadata?.calculation_outcome === 'SUCCESS';
+}
+
+function policies(response: CalculationResponse): Policy[] {
+  return response.calculation_result?.end_situation?.situation?.dossier?.policies ?? [];
+}
+
+function totalPension(response: CalculationResponse): number {
+  return policies(response).reduce((sum, p) => sum + (p.attainable_pension ?? 0), 0);
+}
+
+function outcomeErrors(source: CalculationResponse, followUp: CalculationResponse): string[] {
+  const expected = source.calculation_metadata.calculation_outcome;
+  const actual = followUp.calculation_metadata?.calculation_outcome;
+  return expected === actual ? [] : [`calculation_outcome: expected ${expected} (as for the source request), got ${actual}`];
+}
+
+function situationErrors(source: CalculationResponse, followUp: CalculationResponse): string[] {
+  return compareSituations(
+    source.calculation_result.end_situation.situation,
+    followUp.calculation_result?.end_situation?.situation,
+    'end_situation.situation',
+  ).map(e => `${e.path}: ${e.message}`);
+}
@@ -5,14 +5,58 @@
  * NFR-1 compliance:
  * - HTTP client uses connection pooling and keep-alive
  * - Latency measured with process.hrtime.bigint() (nanosecond / microsecond precision)
- * - Throughput test uses autocannon (capable of 50k+ req/s from the client side)
+ *   and recorded in HDR histograms, so the full percentile spectrum up to p99.99 is kept
+ * - Throughput test uses autocannon (capable of 50k+ req/s from the client side),
+ *   optionally with a weighted request mix from a traffic profile (--traffic-profile)
+ * - Each request is a fresh variant of its fixture (new UUIDs, jittered salaries and
+ *   dates) so response caching cannot win, and a sample of responses is validated
+ *   against the reference engine (--validation-sample-rate)
+ * - Open-loop test sends at a fixed rate regardless of response times and measures
+ *   latency from each request's intended send time, so a stalling engine cannot
+ *   hide its tail latency by slowing the client down (coordinated omission)
+ * - Concurrency test sweeps 1, 2, 4 ... 512 connections to find where latency starts
+ *   rising faster than throughput (the knee of the scaling curve)
+ * - Scalability test times generated large dossiers (hundreds of policies, 40-year
+ *   monthly projections) to show how latency grows with mutation count and projection length
+ * - Optional transport comparison (--transports) repeats correctness, latency and
+ *   throughput over HTTP/1.1 or h2c with gzip/brotli response compression
  */
 
 import { Config } from '../config';
-import { sendCalculationRequest } from '../helpers/http-client';
-import { getSimpleScenarios, getComplexScenarios, getCorrectnessFixtures } from '../helpers/fixture-loader';
-import { PerformanceResults, LatencyStats, ThroughputStats, ConcurrencyStats } from '../types/results';
+import { TargetClient, RequestResult } from '../helpers/http-client';
+import { createPayloadVariant, variantFixture } from '../helpers/payload-variants';
+import { createRandom, Random } from '../helpers/request-generator';
+import { getSimpleScenarios, getComplexScenarios, getCorrectnessFixtures, getBonusFixtures } from '../helpers/fixture-loader';
+import { buildStressScenarios } from '../helpers/stress-scenarios';
+import { runTransportTests } from './transports';
+import { loadTrafficProfile, buildTrafficMix, buildRequestSequence, WeightedFixture } from '../helpers/traffic-profile';
+import { validateResponse } from '../validation/response-validator';
+import {
+  PerformanceResults,
+  LatencyStats,
+  ThroughputStats,
+  ScenarioThroughput,
+  ConcurrencyStats,
+  ConcurrencyStep,
+  OpenLoopResults,
+  OpenLoopStep,
+  SpotCheckResults,
+  SpotCheckFailure,
+  LoadTest,
+  ScalabilityResults,
+  ScalabilityPoint,
+  TransportResult,
+} from '../types/results';
 import { TestFixture } from '../types/fixtures';
+import { TrafficProfile } from '../types/traffic-profiles';
+import { CalculationRequest, CalculationResponse, ProjectFutureBenefitsProperties } from '../types/api';
+import {
+  LatencyHistogram,
+  createLatencyHistogram,
+  recordLatency,
+  mergeHistograms,
+  latencyStatsFromHistogram,
+} from '../helpers/latency-histogram';
 
 /** Number of sequential repetitions per scenario per round for latency tests (PRD: FR-3). */
 const LATENCY_REPS_PER_ROUND = 100;
@@ -20,22 +64,51 @@ const LATENCY_REPS_PER_ROUND = 100;
 /** Number of independent latency rounds (median is taken across rounds). */
 const LATENCY_ROUNDS = 3;
 
+/** Length of the weighted request sequence each throughput connection cycles through. */
+const MIX_SEQUENCE_LENGTH = 1000;
+
+/**
+ * autocannon's request timeout: it drops the connection and resends after this long
+ * without a response, so a variant sent earlier will not be answered any more.
+ */
+const LOAD_TIMEOUT_SECONDS = 10;
+
+/** Spot-check failures kept in the results (all are counted). */
+const MAX_REPORTED_SPOT_CHECK_FAILURES = 10;
+
 /** Number of rounds of concurrent bursts in the concurrency test. */
 const CONCURRENCY_ROUNDS = 5;
 
+/** Sequential requests timed per stress scenario. */
+const STRESS_REPS = 20;
+
+/**
+ * Wraps the throughput test, e.g. to sample the target container's resource use while
+ * it runs; must return the stats of the load it was given.
+ */
+export type ThroughputObserver = (load: () => Promise<ThroughputStats>) => Promise<ThroughputStats>;
+
 /**
  * Run the performance test suite.
  * Only tests scenarios that passed correctness.
  */
 export async function runPerformanceTests(
   config: Config,
+  client: TargetClient,
   passedScenarioIds: Set<string>,
+  observeThroughput?: ThroughputObserver,
 ): Promise<PerformanceResults> {
   console.log('\n  Running performance tests...\n');
 
+  const payloads = new LoadPayloads(config);
+  console.log(
+    `  Payloads: ${config.uniquePayloads ? 'unique variant per request' : 'fixture bodies as-is'}, ` +
+    `validating ${(config.validationSampleRate * 100).toFixed(1)}% of responses`
+  );
+
   // Warmup
   console.log(`  Warming up with ${config.warmupRequests} requests...`);
-  await performWarmup(config, passedScenarioIds);
+  await performWarmup(config, client, passedScenarioIds);
 
   // Simple latency -- run multiple independent rounds & take median
   const simpleScenarios = getSimpleScenarios().filter(s => passedScenarioIds.has(s.id));
@@ -43,7 +116,7 @@ export async function runPerformanceTests(
   if (simpleScenarios.length > 0) {
     const totalReps = LATENCY_REPS_PER_ROUND * LATENCY_ROUNDS;
     console.log(`  Measuring simple latency (${simpleScenarios.length} scenarios, ${LATENCY_ROUNDS} rounds × ${LATENCY_REPS_PER_ROUND} reps = ${totalReps} samples)...`);
-    simpleLatency = await measureLatencyMultiRound(simpleScenarios, LATENCY_REPS_PER_ROUND, LATENCY_ROUNDS);
+    simpleLatency = await measureLatencyMultiRound(client, payloads, simpleScenarios, LATENCY_REPS_PER_ROUND, LATENCY_ROUNDS);
     printLatencyStats('    Simple', simpleLatency);
   } else {
     console.log('  Skipping simple latency (no passing simple scenarios)');
@@ -55,7 +128,7 @@ export async function runPerformanceTests(
   if (complexScenarios.length > 0) {
     const totalReps = LATENCY_REPS_PER_ROUND * LATENCY_ROUNDS;
     console.log(`  Measuring complex latency (${complexScenarios.length} scenarios, ${LATENCY_ROUNDS} rounds × ${LATENCY_REPS_PER_ROUND} reps = ${totalReps} samples)...`);
-    complexLatency = await measureLatencyMultiRound(complexScenarios, LATENCY_REPS_PER_ROUND, LATENCY_ROUNDS);
+    complexLatency = await measureLatencyMultiRound(client, payloads, complexScenarios, LATENCY_REPS_PER_ROUND, LATENCY_ROUNDS);
     printLatencyStats('    Complex', complexLatency);
   } else {
     console.log('  Skipping complex latency (no passing complex scenarios)');
@@ -66,8 +139,19 @@ export async function runPerformanceTests(
   let throughput: ThroughputStats | null = null;
   if (allPassing.length > 0) {
     console.log(`  Measuring throughput (${config.throughputDuration}s sustained load)...`);
-    throughput = await measureThroughput(config, allPassing);
-    console.log(`    ${throughput.requests_per_second.toFixed(0)} req/s (${throughput.total_requests} total, ${throughput.error_count} errors)`);
+    const load = () => measureThroughput(config, client, payloads, allPassing);
+    throughput = await (observeThroughput ? observeThroughput(load) : load());
+    console.log(
+      `    ${throughput.requests_per_second.toFixed(0)} req/s, ${formatBytes(throughput.bytes_per_second)}/s ` +
+      `(${throughput.total_requests} total, ${throughput.error_count} errors)`
+    );
+    for (const scenario of throughput.scenarios) {
+      console.log(
+        `      ${scenario.id.padEnd(4)} ${scenario.group.padEnd(12)} ${(scenario.share * 100).toFixed(1).padStart(5)}%  ` +
+        `${scenario.requests_per_second.toFixed(0).padStart(6)} req/s  p50=${scenario.latency.median_ms.toFixed(2)}ms  ` +
+        `p99=${scenario.latency.p99_ms.toFixed(2)}ms  ${formatBytes(scenario.mean_response_bytes)}/resp  errors=${scenario.error_count}`
+      );
+    }
   } else {
     console.log('  Skipping throughput (no passing scenarios)');
   }
@@ -79,39 +163,84 @@ export async function runPerformanceTests(
 
     // Baseline: measure sequential single-request latency (3 rounds for stability)
     console.log('    Measuring sequential baseline...');
-    const baselineStats = await measureLatencyMultiRound(allPassing.slice(0, 1), 20, 3);
+    const baselineStats = await measureLatencyMultiRound(client, payloads, allPassing.slice(0, 1), 20, 3);
     console.log(`    Baseline (sequential): mean=${baselineStats.mean_ms.toFixed(2)}ms`);
 
-    concurrency = await measureConcurrency(config, allPassing, baselineStats.mean_ms);
+    concurrency = await measureConcurrency(config, client, payloads, allPassing, baselineStats.mean_ms);
     console.log(`    Under load: mean=${concurrency.mean_ms.toFixed(2)}ms  p99=${concurrency.p99_ms.toFixed(2)}ms  errors=${concurrency.error_count}`);
 
     if (baselineStats.mean_ms > 0) {
       const degradation = concurrency.mean_ms / baselineStats.mean_ms;
       console.log(`    Degradation factor: ${degradation.toFixed(2)}x vs sequential baseline`);
     }
+    if (concurrency.knee_concurrency !== null) {
+      console.log(`    Knee: ${concurrency.knee_concurrency} connections (scaling efficiency ${(concurrency.scaling_efficiency! * 100).toFixed(0)}%)`);
+    }
   } else {
     console.log('  Skipping concurrency (no passing scenarios)');
   }
 
+  // Open-loop -- step up through the configured rates until p99 breaches the SLO
+  let openLoop: OpenLoopResults | undefined;
+  if (config.openLoopRates.length > 0 && allPassing.length > 0) {
+    console.log(`  Measuring open-loop latency (rates ${config.openLoopRates.join(', ')} req/s, ${config.openLoopDuration}s each, p99 SLO ${config.p99SloMs}ms)...`);
+    openLoop = await measureOpenLoop(config, client, payloads, allPassing);
+    console.log(`    Highest sustainable rate: ${openLoop.max_sustainable_rps != null ? `${openLoop.max_sustainable_rps} req/s` : 'none'}`);
+  }
+
+  // Scalability -- latency on generated large dossiers, by mutation count and projection length
+  let scalability: ScalabilityResults | undefined;
+  if (!config.skipScalability) {
+    console.log(`  Measuring scalability (generated large dossiers, ${STRESS_REPS} reps each)...`);
+    scalability = await measureScalability(config, client, payloads);
+    console.log(
+      `    Growth exponent: ${formatExponent(scalability.mutation_growth_exponent)} by mutation count, ` +
+      `${formatExponent(scalability.projection_growth_exponent)} by projection length (1 = linear)`
+    );
+  }
+
+  // Transports -- the passing scenarios over each --transports protocol and response encoding
+  let transports: TransportResult[] | undefined;
+  if (config.transports.length > 0 && allPassing.length > 0) {
+    console.log(`  Comparing transports (${config.transports.length} transports, ${config.transportDuration}s load each)...`);
+    transports = await runTransportTests(config, client, allPassing);
+  }
+
+  const spotChecks = payloads.results();
+  console.log(`  Spot checks: ${spotChecks.passed}/${spotChecks.checked} sampled responses match the reference engine`);
+  if (spotChecks.correct_under_load_rate !== null) {
+    console.log(`    Correct under load: ${(spotChecks.correct_under_load_rate * 100).toFixed(1)}% of ${spotChecks.under_load_checked} sampled responses`);
+  }
+  if (spotChecks.penalized) {
+    console.log(
+      `    \x1b[31mMore than ${(config.maxIncorrectUnderLoad * 100).toFixed(1)}% of responses under load are incorrect: ` +
+      'performance scores will be zero\x1b[0m'
+    );
+  }
+
   return {
     simple_latency: simpleLatency,
     complex_latency: complexLatency,
     throughput,
     concurrency,
     relative_scores: null,
+    ...(openLoop ? { open_loop: openLoop } : {}),
+    spot_checks: spotChecks,
+    ...(scalability ? { scalability } : {}),
+    ...(transports ? { transports } : {}),
   };
 }
 
 // ============ Warmup ============
 
-async function performWarmup(config: Config, passedScenarioIds: Set<string>): Promise<void> {
+async function performWarmup(config: Config, client: TargetClient, passedScenarioIds: Set<string>): Promise<void> {
   const fixtures = getCorrectnessFixtures().filter(f => passedScenarioIds.has(f.id));
   if (fixtures.length === 0) return;
 
   // Rotate through passing fixtures for a realistic warmup
   for (let i = 0; i < config.warmupRequests; i++) {
     const fixture = fixtures[i % fixtures.length];
-    await sendCalculationRequest(fixture.request);
+    await client.send(fixture.request);
   }
 }
 
@@ -120,96 +249,138 @@ async function performWarmup(config: Config, passedScenarioIds: Set<string>): Pr
 /**
  * Run multiple independent latency rounds.
  *
- * Each round independently measures latency (repsPerRound samples per scenario).
- * The final result uses the *median round* by mean latency, which makes the
- * measurement robust against transient system load spikes (one bad round won't
- * poison the result).
+ * Each round independently records a latency histogram (repsPerRound samples per
+ * scenario). The round histograms are merged, so the percentiles are taken over
+ * every sample rather than over one round's 100-odd values. The reported mean is
+ * the *median round's* mean, which keeps the scored figure robust against
+ * transient system load spikes (one bad round won't poison the result).
  *
  * Additionally, the spread between rounds is reported so operators can judge
  * whether the test conditions were stable.
  */
 async function measureLatencyMultiRound(
+  client: TargetClient,
+  payloads: LoadPayloads,
   scenarios: TestFixture[],
   repsPerRound: number,
   rounds: number,
 ): Promise<LatencyStats> {
-  const roundStats: LatencyStats[] = [];
+  const roundHistograms: LatencyHistogram[] = [];
 
   for (let round = 1; round <= rounds; round++) {
-    const stats = await measureLatency(scenarios, repsPerRound);
-    roundStats.push(stats);
-    console.log(`      Round ${round}/${rounds}: mean=${stats.mean_ms.toFixed(2)}ms`);
+    const histogram = await measureLatency(client, payloads, scenarios, repsPerRound);
+    roundHistograms.push(histogram);
+    console.log(`      Round ${round}/${rounds}: mean=${(histogram.mean / 1000).toFixed(2)}ms`);
   }
 
-  // Sort rounds by mean latency and pick the median round
-  roundStats.sort((a, b) => a.mean_ms - b.mean_ms);
-  const medianIndex = Math.floor(roundStats.length / 2);
-  const medianRound = roundStats[medianIndex];
+  // Sort round means and pick the median round
+  const roundMeans = roundHistograms.map(h => h.mean / 1000).sort((a, b) => a - b);
+  const medianMean = roundMeans[Math.floor(roundMeans.length / 2)];
 
   // Report spread so operators can judge stability
-  const spread = roundStats[roundStats.length - 1].mean_ms - roundStats[0].mean_ms;
-  const spreadPct = roundStats[0].mean_ms > 0
-    ? ((spread / roundStats[0].mean_ms) * 100).toFixed(1)
+  const spread = roundMeans[roundMeans.length - 1] - roundMeans[0];
+  const spreadPct = roundMeans[0] > 0
+    ? ((spread / roundMeans[0]) * 100).toFixed(1)
     : '0.0';
-  console.log(`      Cross-round spread: ${spread.toFixed(2)}ms (${spreadPct}%) — using median round`);
+  console.log(`      Cross-round spread: ${spread.toFixed(2)}ms (${spreadPct}%) — using median round mean, percentiles over all rounds`);
 
-  return medianRound;
+  const stats = latencyStatsFromHistogram(mergeHistograms(roundHistograms));
+  return stats.sample_count > 0 ? { ...stats, mean_ms: medianMean } : stats;
 }
 
 /**
  * Measure sequential single-request latency.
- * Sends each scenario `reps` times sequentially and collects response times.
+ * Sends each scenario `reps` times sequentially and records response times.
  */
 async function measureLatency(
+  client: TargetClient,
+  payloads: LoadPayloads,
   scenarios: TestFixture[],
   reps: number,
-): Promise<LatencyStats> {
-  const times: number[] = [];
+): Promise<LatencyHistogram> {
+  const histogram = createLatencyHistogram();
 
   for (const scenario of scenarios) {
     for (let i = 0; i < reps; i++) {
-      const result = await sendCalculationRequest(scenario.request);
+      const request = payloads.request(scenario);
+      const result = await client.send(request);
       if (!result.error) {
-        times.push(result.elapsedMs);
+        recordLatency(histogram, result.elapsedMs);
       }
+      payloads.check('latency', scenario, request, result);
     }
   }
 
-  return computeLatencyStats(times);
+  return histogram;
 }
 
 // ============ Throughput ============
 
+/**
+ * Run the throughput test on its own, with the same load and payload variants as in
+ * the suite (the resource test uses it when the suite's target is not its container).
+ */
+export async function runThroughputTest(
+  config: Config,
+  client: TargetClient,
+  scenarios: TestFixture[],
+): Promise<ThroughputStats> {
+  return measureThroughput(config, client, new LoadPayloads(config), scenarios);
+}
+
 /**
  * Measure sustained throughput using autocannon.
- * Cycles through all passing scenario request bodies.
+ * Sends the traffic profile's weighted mix when --traffic-profile is given,
+ * otherwise cycles uniformly through all passing scenario request bodies.
  */
 async function measureThroughput(
   config: Config,
+  client: TargetClient,
+  payloads: LoadPayloads,
   scenarios: TestFixture[],
 ): Promise<ThroughputStats> {
   const autocannon = require('autocannon');
 
-  // Build request objects -- autocannon cycles through these automatically
-  const requests = scenarios.map(s => ({
-    method: 'POST' as const,
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(s.request),
-  }));
+  const profile = config.trafficProfile ? loadTrafficProfile(config.trafficProfile) : null;
+  const mix = profile
+    ? await buildProfileMix(client, profile, scenarios)
+    : scenarios.map(fixture => ({ fixture, group: 'uniform', share: 1 / scenarios.length }));
+
+  // Per-scenario tallies. autocannon calls a request's onResponse right before it
+  // emits the 'response' event carrying that request's latency.
+  const tallies = new Map(mix.map(m => [m.fixture.id, { requests: 0, errors: 0, bytes: 0, histogram: createLatencyHistogram() }]));
+  let lastResponse: { id: string; status: number; bytes: number } | null = null;
+
+  const sequence = profile ? buildRequestSequence(mix, MIX_SEQUENCE_LENGTH) : mix.map(m => m.fixture);
+  const requests = autocannonRequests(config, payloads, 'throughput', sequence, (fixture, status, body) => {
+    lastResponse = { id: fixture.id, status, bytes: Buffer.byteLength(body) };
+  });
 
   const result = await new Promise<any>((resolve, reject) => {
-    autocannon({
-      url: `${config.target}/calculation-requests`,
+    const instance = autocannon({
+      url: `${client.baseUrl}/calculation-requests`,
       connections: 10,
       pipelining: 10,
       duration: config.throughputDuration,
+      timeout: LOAD_TIMEOUT_SECONDS,
       requests,
     }, (err: Error | null, res: any) => {
       if (err) reject(err);
       else resolve(res);
     });
+
+    instance.on('response', (_client: unknown, _statusCode: number, _bytes: number, responseTime: number) => {
+      const tally = lastResponse && tallies.get(lastResponse.id);
+      if (!lastResponse || !tally) return;
+      tally.requests++;
+      tally.bytes += lastResponse.bytes;
+      if (lastResponse.status < 200 || lastResponse.status >= 300) {
+        tally.errors++;
+      } else {
+        recordLatency(tally.histogram, responseTime);
+      }
+      lastResponse = null;
+    });
   });
 
   const totalRequests = result.requests.total;
@@ -221,6 +392,130 @@ async function measureThroughput(
     total_requests: totalRequests,
     error_count: errorCount,
     error_rate: totalRequests > 0 ? errorCount / totalRequests : 0,
+    bytes_per_second: result.throughput.average,
+    profile: profile?.name ?? null,
+    scenarios: mix.map(m => scenarioThroughput(m, tallies.get(m.fixture.id)!, config.throughputDuration)),
+  };
+}
+
+/**
+ * Weight the profile's groups over the fixtures the target handles correctly.
+ * Correctness fixtures must have passed; bonus fixtures (e.g. B01) are checked
+ * with one request here, since the bonus suite runs after performance.
+ */
+async function buildProfileMix(
+  client: TargetClient,
+  profile: TrafficProfile,
+  passingScenarios: TestFixture[],
+): Promise<WeightedFixture[]> {
+  const eligible = [...passingScenarios];
+  for (const fixture of getBonusFixtures()) {
+    const result = await client.send(fixture.request);
+    if (!result.error && validateResponse(fixture, result.status, result.body).passed) {
+      eligible.push(fixture);
+    }
+  }
+
+  const mix = buildTrafficMix(profile, eligible);
+  console.log(`    Traffic profile "${profile.name}" (${mix.fixtures.length} scenarios)`);
+  for (const group of mix.emptyGroups) {
+    console.log(`    \x1b[33m→ Group "${group}" has no passing scenarios; its weight is spread over the other groups\x1b[0m`);
+  }
+  if (mix.fixtures.length === 0) {
+    throw new Error(`Traffic profile "${profile.name}" selects none of the passing scenarios`);
+  }
+  return mix.fixtures;
+}
+
+/**
+ * autocannon request entries cycling through the fixtures. With unique payloads each
+ * send gets a fresh variant; sampled responses are validated as part of the given test.
+ */
+function autocannonRequests(
+  config: Config,
+  payloads: LoadPayloads,
+  test: LoadTest,
+  sequence: TestFixture[],
+  onResponse?: (fixture: TestFixture, status: number, body: string) => void,
+): Record<string, unknown>[] {
+  // autocannon only tells which request entry (fixture) a response belongs to, not which
+  // variant was sent, so variants in flight are found by their fresh first mutation_id
+  // (every response echoes it). Only sampled variants keep their request for validation.
+  // Variants whose response echoes no ID (errors, timeouts) are forgotten once autocannon
+  // has given up on them, so the map stays bounded against a failing engine.
+  const inFlight = new Map<string, { request: CalculationRequest | null; sentAt: number }>();
+  const forgetTimedOut = (now: number) => {
+    // Map iteration follows insertion, i.e. send order
+    for (const [id, variant] of inFlight) {
+      if (now - variant.sentAt < LOAD_TIMEOUT_SECONDS * 1000) break;
+      inFlight.delete(id);
+    }
+  };
+  const onVariantResponse = (fixture: TestFixture, status: number, body: string) => {
+    const id = findInFlightId(body, inFlight);
+    if (id === undefined) {
+      if (payloads.sampled()) {
+        payloads.record(test, fixture.id, [`HTTP ${status} response does not echo the mutation_id of any request in flight`]);
+      }
+      return;
+    }
+    const request = inFlight.get(id)!.request;
+    inFlight.delete(id);
+    if (request) {
+      payloads.validate(test, fixture, request, status, parseBody(body));
+    }
+  };
+
+  return sequence.map(fixture => ({
+    method: 'POST' as const,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(fixture.request),
+    // Called before each send: replaces the body with a fresh variant
+    ...(config.uniquePayloads ? {
+      setupRequest: (req: Record<string, unknown>) => {
+        const request = payloads.request(fixture);
+        const firstId = request.calculation_instructions.mutations[0].mutation_id.toLowerCase();
+        const now = Date.now();
+        forgetTimedOut(now);
+        inFlight.set(firstId, { request: payloads.sampled() ? request : null, sentAt: now });
+        return { ...req, body: JSON.stringify(request) };
+      },
+    } : {}),
+    onResponse: (status: number, body: string) => {
+      onResponse?.(fixture, status, body);
+      if (config.uniquePayloads) {
+        onVariantResponse(fixture, status, body);
+      } else if (payloads.sampled()) {
+        payloads.validate(test, fixture, fixture.request, status, parseBody(body));
+      }
+    },
+  }));
+}
+
+function parseBody(body: string): CalculationResponse | null {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+function scenarioThroughput(
+  entry: WeightedFixture,
+  tally: { requests: number; errors: number; bytes: number; histogram: LatencyHistogram },
+  durationSeconds: number,
+): ScenarioThroughput {
+  return {
+    id: entry.fixture.id,
+    group: entry.group,
+    share: entry.share,
+    requests: tally.requests,
+    requests_per_second: tally.requests / durationSeconds,
+    error_count: tally.errors,
+    mean_response_bytes: tally.requests > 0 ? tally.bytes / tally.requests : 0,
+    latency: latencyStatsFromHistogram(tally.histogram),
   };
 }
 
@@ -231,99 +526,455 @@ async function measureThroughput(
  *
  * Runs multiple rounds of concurrent bursts:
  * - Each round fires `concurrencyLevel` requests simultaneously via Promise.all
- * - All response times are collected across rounds
+ * - All response times are recorded in one histogram across rounds
  * - Results include mean/p99 latency under load and error count
  * - A baseline comparison shows the degradation factor vs sequential latency
+ * - A connection sweep then records the scaling curve, its knee and scaling efficiency
  */
 async function measureConcurrency(
   config: Config,
+  client: TargetClient,
+  payloads: LoadPayloads,
   scenarios: TestFixture[],
   _baselineMeanMs: number,
 ): Promise<ConcurrencyStats> {
   const concurrencyLevel = config.concurrencyLevel;
-  const allTimes: number[] = [];
+  const histogram = createLatencyHistogram();
   let totalErrors = 0;
 
   for (let round = 0; round < CONCURRENCY_ROUNDS; round++) {
-    const times: number[] = [];
     let roundErrors = 0;
     const promises: Promise<void>[] = [];
 
     for (let i = 0; i < concurrencyLevel; i++) {
       const scenario = scenarios[i % scenarios.length];
+      const request = payloads.request(scenario);
       promises.push(
-        sendCalculationRequest(scenario.request).then(result => {
+        client.send(request).then(result => {
           if (result.error || result.status !== 200) {
             roundErrors++;
           } else {
-            times.push(result.elapsedMs);
+            recordLatency(histogram, result.elapsedMs);
           }
+          payloads.check('concurrency', scenario, request, result);
         })
       );
     }
 
     await Promise.all(promises);
 
-    allTimes.push(...times);
     totalErrors += roundErrors;
   }
 
-  const stats = computeLatencyStats(allTimes);
+  const stats = latencyStatsFromHistogram(histogram);
+
+  console.log(`    Scaling sweep (1 to ${config.concurrencySweepMax} connections, ${config.concurrencyStepDuration}s each)...`);
+  const curve = await measureConcurrencySweep(config, client, payloads, scenarios);
+  const knee = findKnee(curve);
 
   return {
     concurrency_level: concurrencyLevel,
     mean_ms: stats.mean_ms,
     p99_ms: stats.p99_ms,
     error_count: totalErrors,
+    curve,
+    knee_concurrency: knee?.connections ?? null,
+    scaling_efficiency: knee?.scaling_efficiency ?? null,
   };
 }
 
-// ============ Stats Helpers ============
+/**
+ * Run closed-loop autocannon load at 1, 2, 4, ... connections (one request in flight
+ * per connection) and record throughput and latency at each step.
+ * autocannon is used rather than the HTTP client, whose agent caps sockets at 100.
+ */
+async function measureConcurrencySweep(
+  config: Config,
+  client: TargetClient,
+  payloads: LoadPayloads,
+  scenarios: TestFixture[],
+): Promise<ConcurrencyStep[]> {
+  const autocannon = require('autocannon');
+  const requests = autocannonRequests(config, payloads, 'concurrency', scenarios);
+  const curve: ConcurrencyStep[] = [];
+
+  for (let connections = 1; connections <= config.concurrencySweepMax; connections *= 2) {
+    const histogram = createLatencyHistogram();
+    const result = await new Promise<any>((resolve, reject) => {
+      const instance = autocannon({
+        url: `${client.baseUrl}/calculation-requests`,
+        connections,
+        pipelining: 1,
+        duration: config.concurrencyStepDuration,
+        timeout: LOAD_TIMEOUT_SECONDS,
+        requests,
+      }, (err: Error | null, res: any) => {
+        if (err) reject(err);
+        else resolve(res);
+      });
+
+      instance.on('response', (_client: unknown, statusCode: number, _bytes: number, responseTime: number) => {
+        if (statusCode >= 200 && statusCode < 300) recordLatency(histogram, responseTime);
+      });
+    });
 
-function computeLatencyStats(times: number[]): LatencyStats {
-  if (times.length === 0) {
-    return {
-      mean_ms: 0,
-      median_ms: 0,
-      p95_ms: 0,
-      p99_ms: 0,
-      min_ms: 0,
-      max_ms: 0,
-      sample_count: 0,
+    const stats = latencyStatsFromHistogram(histogram);
+    const rps: number = result.requests.average;
+    const singleConnectionRps = curve.length > 0 ? curve[0].requests_per_second : rps;
+    const step: ConcurrencyStep = {
+      connections,
+      requests_per_second: rps,
+      mean_ms: stats.mean_ms,
+      p50_ms: stats.median_ms,
+      p99_ms: stats.p99_ms,
+      error_count: (result.errors || 0) + (result.non2xx || 0),
+      scaling_efficiency: singleConnectionRps > 0 ? rps / (connections * singleConnectionRps) : 0,
     };
+    curve.push(step);
+    console.log(
+      `      ${String(connections).padStart(4)} conn  ${rps.toFixed(0).padStart(6)} req/s  ` +
+      `mean=${step.mean_ms.toFixed(2)}ms  p99=${step.p99_ms.toFixed(2)}ms  ` +
+      `efficiency=${(step.scaling_efficiency * 100).toFixed(0)}%  errors=${step.error_count}`
+    );
+  }
+
+  return curve;
+}
+
+/**
+ * The knee is the error-free step with the highest throughput per millisecond of mean
+ * latency. Below it, added connections raise throughput more than latency; beyond it,
+ * they mostly queue.
+ */
+function findKnee(curve: ConcurrencyStep[]): ConcurrencyStep | null {
+  let knee: ConcurrencyStep | null = null;
+  for (const step of curve) {
+    if (step.error_count > 0 || step.mean_ms <= 0) continue;
+    if (!knee || step.requests_per_second / step.mean_ms > knee.requests_per_second / knee.mean_ms) {
+      knee = step;
+    }
   }
+  return knee;
+}
 
-  times.sort((a, b) => a - b);
+// ============ Open-loop ============
 
-  const sum = times.reduce((s, t) => s + t, 0);
-  const mean = sum / times.length;
+/**
+ * Run one open-loop step per configured rate, in ascending order.
+ * Stepping stops at the first rate that is not sustainable (p99 above the SLO or any errors).
+ */
+async function measureOpenLoop(
+  config: Config,
+  client: TargetClient,
+  payloads: LoadPayloads,
+  scenarios: TestFixture[],
+): Promise<OpenLoopResults> {
+  const steps: OpenLoopStep[] = [];
+
+  for (const rate of config.openLoopRates) {
+    const step = await measureOpenLoopStep(client, payloads, scenarios, rate, config.openLoopDuration, config.p99SloMs);
+    steps.push(step);
+
+    const status = step.sustainable ? '\x1b[32mOK\x1b[0m' : '\x1b[31mBREACH\x1b[0m';
+    console.log(
+      `    ${String(rate).padStart(6)} req/s: [${status}] achieved=${step.achieved_rps.toFixed(0)} req/s  ` +
+      `p50=${step.latency.median_ms.toFixed(2)}ms  p99=${step.latency.p99_ms.toFixed(2)}ms  ` +
+      `max=${step.latency.max_ms.toFixed(2)}ms  errors=${step.error_count}`
+    );
+    if (step.max_send_lag_ms > config.p99SloMs) {
+      console.log(`      \x1b[33m→ Client fell ${step.max_send_lag_ms.toFixed(0)}ms behind schedule; this rate may exceed what the test machine can generate\x1b[0m`);
+    }
+    if (!step.sustainable) break;
+  }
 
+  const sustainable = steps.filter(s => s.sustainable);
   return {
-    mean_ms: mean,
-    median_ms: percentile(times, 50),
-    p95_ms: percentile(times, 95),
-    p99_ms: percentile(times, 99),
-    min_ms: times[0],
-    max_ms: times[times.length - 1],
-    sample_count: times.length,
+    p99_slo_ms: config.p99SloMs,
+    step_duration_seconds: config.openLoopDuration,
+    max_sustainable_rps: sustainable.length > 0 ? sustainable[sustainable.length - 1].target_rps : null,
+    steps,
   };
 }
 
 /**
- * Interpolated percentile from a sorted array.
+ * Send requests at a constant arrival rate for `durationSeconds`.
+ *
+ * Request i is due at start + i / rate. Requests are fired when due without waiting
+ * for earlier responses, and latency is measured from the intended send time rather
+ * than the actual one, so client-side queueing behind a slow engine is counted.
  */
-function percentile(sorted: number[], p: number): number {
-  const index = (p / 100) * (sorted.length - 1);
-  const lower = Math.floor(index);
-  const upper = Math.ceil(index);
-  if (lower === upper) return sorted[lower];
-  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+async function measureOpenLoopStep(
+  client: TargetClient,
+  payloads: LoadPayloads,
+  scenarios: TestFixture[],
+  rate: number,
+  durationSeconds: number,
+  p99SloMs: number,
+): Promise<OpenLoopStep> {
+  const intervalNs = 1_000_000_000 / rate;
+  const total = Math.round(rate * durationSeconds);
+  const histogram = createLatencyHistogram();
+  const inFlight: Promise<void>[] = [];
+  let errorCount = 0;
+  let maxSendLagMs = 0;
+  let sent = 0;
+
+  const start = process.hrtime.bigint();
+  while (sent < total) {
+    const elapsedNs = Number(process.hrtime.bigint() - start);
+    const due = Math.min(total, Math.floor(elapsedNs / intervalNs) + 1);
+
+    for (; sent < due; sent++) {
+      const intended = start + BigInt(Math.round(sent * intervalNs));
+      maxSendLagMs = Math.max(maxSendLagMs, Number(process.hrtime.bigint() - intended) / 1_000_000);
+
+      const scenario = scenarios[sent % scenarios.length];
+      const request = payloads.request(scenario);
+      inFlight.push(
+        client.send(request).then(result => {
+          if (result.error || result.status !== 200) {
+            errorCount++;
+          } else {
+            recordLatency(histogram, Number(process.hrtime.bigint() - intended) / 1_000_000);
+          }
+          payloads.check('open_loop', scenario, request, result);
+        })
+      );
+    }
+
+    // Sleep until the next request is due (timers fire at ~1ms granularity)
+    const nextDueMs = (sent * intervalNs - Number(process.hrtime.bigint() - start)) / 1_000_000;
+    await new Promise(resolve => setTimeout(resolve, Math.max(0, nextDueMs)));
+  }
+
+  await Promise.all(inFlight);
+  const elapsedSeconds = Number(process.hrtime.bigint() - start) / 1_000_000_000;
+  const latency = latencyStatsFromHistogram(histogram);
+
+  return {
+    target_rps: rate,
+    achieved_rps: latency.sample_count / elapsedSeconds,
+    sent,
+    error_count: errorCount,
+    latency,
+    max_send_lag_ms: maxSendLagMs,
+    sustainable: errorCount === 0 && latency.sample_count > 0 && latency.p99_ms <= p99SloMs,
+  };
+}
+
+// ============ Scalability ============
+
+/**
+ * Measure latency on the generated stress scenarios, per series.
+ * Each scenario's first response is validated against the reference engine; only
+ * correct scenarios are timed, with STRESS_REPS sequential requests.
+ */
+async function measureScalability(config: Config, client: TargetClient, payloads: LoadPayloads): Promise<ScalabilityResults> {
+  const { mutationSeries, projectionSeries } = buildStressScenarios(createRandom(config.seed));
+
+  const byMutationCount: ScalabilityPoint[] = [];
+  for (const fixture of mutationSeries) {
+    byMutationCount.push(await measureStressScenario(client, payloads, fixture));
+  }
+  const byProjectionMonths: ScalabilityPoint[] = [];
+  for (const fixture of projectionSeries) {
+    byProjectionMonths.push(await measureStressScenario(client, payloads, fixture));
+  }
+
+  return {
+    by_mutation_count: byMutationCount,
+    by_projection_months: byProjectionMonths,
+    mutation_growth_exponent: fitGrowthExponent(byMutationCount, p => p.mutation_count),
+    projection_growth_exponent: fitGrowthExponent(byProjectionMonths, p => p.projection_months),
+  };
+}
+
+async function measureStressScenario(
+  client: TargetClient,
+  payloads: LoadPayloads,
+  fixture: TestFixture,
+): Promise<ScalabilityPoint> {
+  const mutations = fixture.request.calculation_instructions.mutations;
+  const projection = mutations.find(m => m.mutation_definition_name === 'project_future_benefits')
+    ?.mutation_properties as ProjectFutureBenefitsProperties | undefined;
+  const point: ScalabilityPoint = {
+    scenario_id: fixture.id,
+    mutation_count: mutations.length,
+    projection_months: projection ? monthsBetween(projection.projection_start_date, projection.projection_end_date) : 0,
+    correct: false,
+    errors: [],
+    latency: null,
+  };
+
+  const request = payloads.request(fixture);
+  const first = await client.send(request);
+  point.errors = first.error
+    ? [`Request failed: ${first.error}`]
+    : validateResponse(request === fixture.request ? fixture : variantFixture(fixture, request), first.status, first.body).errors;
+  point.correct = point.errors.length === 0;
+
+  if (point.correct) {
+    const histogram = await measureLatency(client, payloads, [fixture], STRESS_REPS);
+    point.latency = latencyStatsFromHistogram(histogram);
+  }
+
+  console.log(
+    `      ${fixture.id.padEnd(12)} ` +
+    (point.latency
+      ? `mean=${point.latency.mean_ms.toFixed(2)}ms  p99=${point.latency.p99_ms.toFixed(2)}ms`
+      : `\x1b[31mincorrect\x1b[0m (${point.errors.length} errors, not timed)`)
+  );
+  return point;
+}
+
+/**
+ * Fit mean latency ≈ a·size^b by least squares on log-log scale and return b.
+ * Only correct points are used; null when fewer than two remain.
+ */
+function fitGrowthExponent(points: ScalabilityPoint[], size: (p: ScalabilityPoint) => number): number | null {
+  const timed = points.filter(p => p.latency && p.latency.mean_ms > 0 && size(p) > 0);
+  if (timed.length < 2) return null;
+
+  const xs = timed.map(p => Math.log(size(p)));
+  const ys = timed.map(p => Math.log(p.latency!.mean_ms));
+  const meanX = xs.reduce((s, x) => s + x, 0) / xs.length;
+  const meanY = ys.reduce((s, y) => s + y, 0) / ys.length;
+  const covariance = xs.reduce((s, x, i) => s + (x - meanX) * (ys[i] - meanY), 0);
+  const variance = xs.reduce((s, x) => s + (x - meanX) ** 2, 0);
+  return variance > 0 ? covariance / variance : null;
+}
+
+function monthsBetween(start: string, end: string): number {
+  const [startYear, startMonth] = start.split('-').map(Number);
+  const [endYear, endMonth] = end.split('-').map(Number);
+  return (endYear - startYear) * 12 + (endMonth - startMonth);
+}
+
+// ============ Payloads ============
+
+/** Tests whose spot checks count towards the correct-under-load rate. */
+const UNDER_LOAD_TESTS: LoadTest[] = ['throughput', 'concurrency', 'open_loop'];
+
+/**
+ * Produces the body of each load request and validates a random sample of the responses.
+ */
+class LoadPayloads {
+  private readonly rng: Random;
+  private readonly tallies = new Map<LoadTest, { checked: number; passed: number }>();
+  private readonly failures: SpotCheckFailure[] = [];
+
+  constructor(private readonly config: Config) {
+    this.rng = createRandom(config.seed);
+  }
+
+  /**
+   * The request to send for a fixture: a fresh variant, or the fixture's own request
+   * with --no-unique-payloads.
+   */
+  request(fixture: TestFixture): CalculationRequest {
+    return this.config.uniquePayloads ? createPayloadVariant(fixture.request, this.rng) : fixture.request;
+  }
+
+  /** Whether to validate the next response (probability --validation-sample-rate). */
+  sampled(): boolean {
+    return this.rng() < this.config.validationSampleRate;
+  }
+
+  /**
+   * Validate a sampled response to a request sent with a TargetClient.
+   */
+  check(test: LoadTest, fixture: TestFixture, request: CalculationRequest, result: RequestResult): void {
+    if (!this.sampled()) return;
+    if (result.error) {
+      this.record(test, fixture.id, [`Request failed: ${result.error}`]);
+    } else {
+      this.validate(test, fixture, request, result.status, result.body);
+    }
+  }
+
+  /**
+   * Validate a response that was already selected for sampling.
+   * Variants are checked against the reference engine's result for the variant.
+   */
+  validate(
+    test: LoadTest,
+    fixture: TestFixture,
+    request: CalculationRequest,
+    status: number,
+    body: CalculationResponse | null,
+  ): void {
+    const expected = request === fixture.request ? fixture : variantFixture(fixture, request);
+    this.record(test, fixture.id, validateResponse(expected, status, body).errors);
+  }
+
+  /**
+   * Record the outcome of one spot check (passed when there are no errors).
+   */
+  record(test: LoadTest, fixtureId: string, errors: string[]): void {
+    const tally = this.tallies.get(test) ?? { checked: 0, passed: 0 };
+    this.tallies.set(test, tally);
+    tally.checked++;
+    if (errors.length === 0) {
+      tally.passed++;
+    } else if (this.failures.length < MAX_REPORTED_SPOT_CHECK_FAILURES) {
+      this.failures.push({ test, fixture_id: fixtureId, errors });
+    }
+  }
+
+  results(): SpotCheckResults {
+    const all = [...this.tallies.values()];
+    const underLoad = UNDER_LOAD_TESTS.map(t => this.tallies.get(t)).filter(t => t !== undefined);
+    const checked = all.reduce((sum, t) => sum + t.checked, 0);
+    const passed = all.reduce((sum, t) => sum + t.passed, 0);
+    const underLoadChecked = underLoad.reduce((sum, t) => sum + t.checked, 0);
+    const underLoadPassed = underLoad.reduce((sum, t) => sum + t.passed, 0);
+    const correctRate = underLoadChecked > 0 ? underLoadPassed / underLoadChecked : null;
+
+    return {
+      unique_payloads: this.config.uniquePayloads,
+      sample_rate: this.config.validationSampleRate,
+      checked,
+      passed,
+      failed: checked - passed,
+      under_load_checked: underLoadChecked,
+      correct_under_load_rate: correctRate,
+      max_incorrect_under_load: this.config.maxIncorrectUnderLoad,
+      penalized: correctRate !== null && 1 - correctRate > this.config.maxIncorrectUnderLoad,
+      failures: this.failures,
+    };
+  }
+}
+
+/**
+ * Find the in-flight variant a response belongs to by the mutation IDs it echoes
+ * (in mutations[] and end_situation).
+ */
+function findInFlightId(body: string, inFlight: Map<string, unknown>): string | undefined {
+  const pattern = /"mutation_id"\s*:\s*"([^"]+)"/g;
+  for (let match = pattern.exec(body); match; match = pattern.exec(body)) {
+    const id = match[1].toLowerCase();
+    if (inFlight.has(id)) return id;
+  }
+  return undefined;
+}
+
+// ============ Stats Helpers ============
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${bytes.toFixed(0)}B`;
+}
+
+function formatExponent(exponent: number | null): string {
+  return exponent != null ? exponent.toFixed(2) : 'n/a';
 }
 
 function printLatencyStats(label: string, stats: LatencyStats): void {
   console.log(
     `${label}: mean=${stats.mean_ms.toFixed(2)}ms  median=${stats.median_ms.toFixed(2)}ms  ` +
     `p95=${stats.p95_ms.toFixed(2)}ms  p99=${stats.p99_ms.toFixed(2)}ms  ` +
+    `p99.9=${stats.p99_9_ms.toFixed(2)}ms  p99.99=${stats.p99_99_ms.toFixed(2)}ms  ` +
     `min=${stats.min_ms.toFixed(2)}ms  max=${stats.max_ms.toFixed(2)}ms  ` +
     `(n=${stats.sample_count})`
   );
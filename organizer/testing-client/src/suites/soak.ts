@@ -0,0 +1,184 @@
+/**
+ * Soak test suite.
+ * Drives mixed fixture traffic for a long period (default 30 minutes) and samples
+ * latency percentiles per interval, plus the memory and CPU of the container serving
+ * the target when --cold-start-image is given, to expose leaks and GC degradation
+ * that a 15-second throughput run never shows.
+ */
+
+import { Config } from '../config';
+import { TargetClient } from '../helpers/http-client';
+import { getCorrectnessFixtures } from '../helpers/fixture-loader';
+import { sampleContainerStats } from '../helpers/team-container';
+import { LatencyHistogram, createLatencyHistogram, recordLatency, latencyStatsFromHistogram } from '../helpers/latency-histogram';
+import { SoakResults, SoakSample, SoakTrend } from '../types/results';
+
+/** Closed-loop connections sending fixture requests for the whole run. */
+const SOAK_CONNECTIONS = 10;
+
+/** Minimum number of samples (after the warm-up sample) needed to judge a trend. */
+const MIN_TREND_SAMPLES = 3;
+
+/** A trend is flagged when the fitted line rises by more than this fraction of the mean. */
+const TREND_THRESHOLD = 0.2;
+
+interface SampleWindow {
+  histogram: LatencyHistogram;
+  requests: number;
+  errors: number;
+}
+
+/**
+ * Run the soak test suite on the passing correctness fixtures.
+ */
+export async function runSoakTests(
+  config: Config,
+  client: TargetClient,
+  passedScenarioIds: Set<string>,
+): Promise<SoakResults> {
+  const fixtures = getCorrectnessFixtures().filter(f => passedScenarioIds.has(f.id));
+  const intervalMs = config.soakSampleInterval * 1000;
+  const sampleCount = Math.max(1, Math.round((config.soakDuration * 60 * 1000) / intervalMs));
+  const container = config.coldStartImage ? await findTargetContainer(config.coldStartImage) : null;
+
+  console.log(
+    `\n  Soaking for ${sampleCount} × ${config.soakSampleInterval}s with ${SOAK_CONNECTIONS} connections ` +
+    `(${fixtures.length} scenarios)...`
+  );
+  if (config.coldStartImage && !container) {
+    console.log(`  \x1b[33m→ No running container from ${config.coldStartImage}; container memory/CPU not sampled\x1b[0m`);
+  }
+  console.log('');
+
+  let window = newWindow();
+  let stopped = false;
+
+  // Each connection sends the next fixture as soon as its previous response arrives
+  const connections = Array.from({ length: SOAK_CONNECTIONS }, async (_, connection) => {
+    for (let i = connection; !stopped && fixtures.length > 0; i += SOAK_CONNECTIONS) {
+      const result = await client.send(fixtures[i % fixtures.length].request);
+      window.requests++;
+      if (result.error || result.status !== 200) {
+        window.errors++;
+      } else {
+        recordLatency(window.histogram, result.elapsedMs);
+      }
+    }
+  });
+
+  const samples: SoakSample[] = [];
+  const start = Date.now();
+  try {
+    for (let k = 1; k <= sampleCount; k++) {
+      await sleep(start + k * intervalMs - Date.now());
+      const finished = window;
+      window = newWindow();
+
+      const { memory_rss_bytes, cpu_percent } = container
+        ? await sampleContainerStats(container)
+        : { memory_rss_bytes: null, cpu_percent: null };
+      const latency = latencyStatsFromHistogram(finished.histogram);
+      const sample: SoakSample = {
+        elapsed_seconds: (k * intervalMs) / 1000,
+        requests: finished.requests,
+        error_count: finished.errors,
+        latency,
+        memory_rss_bytes,
+        cpu_percent,
+      };
+      samples.push(sample);
+
+      const memory = sample.memory_rss_bytes != null ? `  rss=${formatMegabytes(sample.memory_rss_bytes)}` : '';
+      const cpu = sample.cpu_percent != null ? `  cpu=${sample.cpu_percent.toFixed(0)}%` : '';
+      console.log(
+        `  [${formatElapsed(sample.elapsed_seconds)}] ${finished.requests} req  ` +
+        `p50=${latency.median_ms.toFixed(2)}ms  p99=${latency.p99_ms.toFixed(2)}ms  ` +
+        `errors=${finished.errors}${memory}${cpu}`
+      );
+    }
+  } finally {
+    stopped = true;
+    await Promise.all(connections);
+  }
+
+  const minutes = samples.map(s => s.elapsed_seconds / 60);
+  const memory = samples.every(s => s.memory_rss_bytes != null)
+    ? detectTrend(minutes, samples.map(s => s.memory_rss_bytes!))
+    : null;
+
+  return {
+    duration_seconds: (sampleCount * intervalMs) / 1000,
+    sample_interval_seconds: config.soakSampleInterval,
+    total_requests: samples.reduce((sum, s) => sum + s.requests, 0),
+    error_count: samples.reduce((sum, s) => sum + s.error_count, 0),
+    memory_trend: memory,
+    p99_trend: detectTrend(minutes, samples.map(s => s.latency.p99_ms)),
+    samples,
+  };
+}
+
+function newWindow(): SampleWindow {
+  return { histogram: createLatencyHistogram(), requests: 0, errors: 0 };
+}
+
+// ============ Trends ============
+
+/**
+ * Fit a least-squares line through the samples and flag it when it rises by more
+ * than TREND_THRESHOLD of the mean over the run. The first sample is left out when
+ * there are enough others, since it includes JIT and cache warm-up.
+ * Returns null when there are too few samples to judge.
+ */
+function detectTrend(minutes: number[], values: number[]): SoakTrend | null {
+  const skip = values.length > MIN_TREND_SAMPLES ? 1 : 0;
+  const xs = minutes.slice(skip);
+  const ys = values.slice(skip);
+  if (ys.length < MIN_TREND_SAMPLES) return null;
+
+  const meanX = xs.reduce((s, x) => s + x, 0) / xs.length;
+  const meanY = ys.reduce((s, y) => s + y, 0) / ys.length;
+  const covariance = xs.reduce((s, x, i) => s + (x - meanX) * (ys[i] - meanY), 0);
+  const variance = xs.reduce((s, x) => s + (x - meanX) ** 2, 0);
+  const slope = variance > 0 ? covariance / variance : 0;
+
+  const relativeIncrease = meanY > 0 ? (slope * (xs[xs.length - 1] - xs[0])) / meanY : 0;
+  return {
+    slope_per_minute: slope,
+    relative_increase: relativeIncrease,
+    flagged: relativeIncrease > TREND_THRESHOLD,
+  };
+}
+
+// ============ Docker Stats ============
+
+/**
+ * Find the running container from the given image, which is assumed to serve --target.
+ */
+async function findTargetContainer(imageName: string): Promise<any | null> {
+  try {
+    const Dockerode = require('dockerode');
+    const docker = new Dockerode();
+    const containers = await docker.listContainers();
+    const match = containers.find((c: any) => c.Image === imageName);
+    return match ? docker.getContainer(match.Id) : null;
+  } catch {
+    // Docker not available
+    return null;
+  }
+}
+
+// ============ Formatting ============
+
+function formatElapsed(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+}
@@ -0,0 +1,138 @@
+/**
+ * Transport comparison.
+ * Sends the passing correctness scenarios over each protocol (HTTP/1.1, h2c) and
+ * Accept-Encoding (identity, gzip, br) given with --transports, checks that the
+ * responses are still correct and measures sequential latency and closed-loop
+ * throughput per transport, so teams can see the effect of their transport choices.
+ */
+
+import { Config, TransportOption } from '../config';
+import { createTargetClient, TargetClient, RequestResult } from '../helpers/http-client';
+import { createLatencyHistogram, recordLatency, latencyStatsFromHistogram } from '../helpers/latency-histogram';
+import { validateResponse } from '../validation/response-validator';
+import { TestFixture } from '../types/fixtures';
+import { TransportResult } from '../types/results';
+
+/** Sequential requests per scenario for the latency measurement. */
+const LATENCY_REPS = 20;
+
+/** Concurrent requests kept in flight during the throughput measurement. */
+const THROUGHPUT_CONNECTIONS = 10;
+
+/** Incorrect responses kept in the results (all are counted). */
+const MAX_REPORTED_ERRORS = 5;
+
+/**
+ * Compare the configured transports on the given (passing) scenarios, each with a
+ * client of its own for the target of `targetClient`.
+ */
+export async function runTransportTests(
+  config: Config,
+  targetClient: TargetClient,
+  scenarios: TestFixture[],
+): Promise<TransportResult[]> {
+  const results: TransportResult[] = [];
+  for (const transport of config.transports) {
+    const client = createTargetClient(targetClient.baseUrl, {
+      protocol: transport.protocol,
+      encoding: transport.encoding,
+    });
+    try {
+      const result = await measureTransport(config, client, scenarios);
+      results.push(result);
+      printTransport(transport, result);
+    } finally {
+      client.close();
+    }
+  }
+  return results;
+}
+
+async function measureTransport(
+  config: Config,
+  client: TargetClient,
+  scenarios: TestFixture[],
+): Promise<TransportResult> {
+  // Correctness: each scenario once, also warming up the connection
+  const errors: string[] = [];
+  const encodings = new Set<string>();
+  let correct = 0;
+  let decodedBytes = 0;
+  let receivedBytes = 0;
+  let compressed = false;
+
+  for (const fixture of scenarios) {
+    const result = await client.send(fixture.request);
+    const problems = result.error
+      ? [`Request failed: ${result.error}`]
+      : validateResponse(fixture, result.status, result.body, result.rawBody).errors;
+    if (problems.length === 0) {
+      correct++;
+    } else if (errors.length < MAX_REPORTED_ERRORS) {
+      errors.push(`${fixture.id}: ${problems[0]}`);
+    }
+    if (!result.error) {
+      const encoding = result.contentEncoding ?? 'identity';
+      encodings.add(encoding);
+      compressed ||= encoding !== 'identity';
+      decodedBytes += result.responseBytes;
+      receivedBytes += result.encodedResponseBytes;
+    }
+  }
+
+  // Latency: sequential requests
+  const histogram = createLatencyHistogram();
+  for (const fixture of scenarios) {
+    for (let i = 0; i < LATENCY_REPS; i++) {
+      const result = await client.send(fixture.request);
+      if (isSuccess(result)) recordLatency(histogram, result.elapsedMs);
+    }
+  }
+
+  // Throughput: closed loop, each connection sends its next request when the previous one completes
+  let completed = 0;
+  let errorCount = 0;
+  const deadline = Date.now() + config.transportDuration * 1000;
+  const start = process.hrtime.bigint();
+  await Promise.all(Array.from({ length: THROUGHPUT_CONNECTIONS }, async (_, connection) => {
+    for (let i = connection; Date.now() < deadline; i += THROUGHPUT_CONNECTIONS) {
+      const result = await client.send(scenarios[i % scenarios.length].request);
+      if (isSuccess(result)) completed++;
+      else errorCount++;
+    }
+  }));
+  const elapsedSeconds = Number(process.hrtime.bigint() - start) / 1e9;
+
+  return {
+    protocol: client.protocol,
+    encoding: client.encoding,
+    checked: scenarios.length,
+    correct,
+    errors,
+    content_encodings: [...encodings],
+    compression_ratio: compressed && receivedBytes > 0 ? decodedBytes / receivedBytes : null,
+    latency: latencyStatsFromHistogram(histogram),
+    requests_per_second: completed / elapsedSeconds,
+    error_count: errorCount,
+  };
+}
+
+function isSuccess(result: RequestResult): boolean {
+  return !result.error && result.status >= 200 && result.status < 300;
+}
+
+function printTransport(transport: TransportOption, result: TransportResult): void {
+  const label = `${transport.protocol}+${transport.encoding}`.padEnd(14);
+  const correctness = result.correct === result.checked
+    ? `\x1b[32m${result.correct}/${result.checked} correct\x1b[0m`
+    : `\x1b[31m${result.correct}/${result.checked} correct\x1b[0m`;
+  const ratio = result.compression_ratio != null ? `  compressed ${result.compression_ratio.toFixed(1)}x` : '';
+  console.log(
+    `    ${label} ${correctness}  mean=${result.latency.mean_ms.toFixed(2)}ms  p99=${result.latency.p99_ms.toFixed(2)}ms  ` +
+    `${result.requests_per_second.toFixed(0)} req/s  errors=${result.error_count}  ` +
+    `encoding=${result.content_encodings.join(',') || 'n/a'}${ratio}`
+  );
+  for (const error of result.errors) {
+    console.log(`      \x1b[33m→ ${error}\x1b[0m`);
+  }
+}
@@ -1,5 +1,8 @@
 /**
  * TypeScript types matching the OpenAPI schema for the Pension Calculation Engine API.
+ *
+ * Generated from api-spec.yaml, mutation-definitions/*.json and README.md by
+ * scripts/generate-api-types.ts. Do not edit by hand: run `npm run generate-api-types`.
  */
 
 // ============ Request Types ============
@@ -21,26 +24,8 @@ export interface BaseMutation {
   mutation_id: string;
   mutation_definition_name: MutationDefinitionName;
   mutation_type: MutationType;
-  actual_at: string; // date string YYYY-MM-DD
-  mutation_properties: Record<string, unknown>;
-  dossier_id?: string;
-}
-
-export interface DossierCreationMutation {
-  mutation_id: string;
-  mutation_definition_name: 'create_dossier';
-  mutation_type: 'DOSSIER_CREATION';
-  actual_at: string;
-  mutation_properties: CreateDossierProperties;
-}
-
-export interface DossierMutation {
-  mutation_id: string;
-  mutation_definition_name: 'add_policy' | 'apply_indexation' | 'calculate_retirement_benefit' | 'project_future_benefits';
-  mutation_type: 'DOSSIER';
   actual_at: string;
-  dossier_id: string;
-  mutation_properties: AddPolicyProperties | ApplyIndexationProperties | CalculateRetirementBenefitProperties | ProjectFutureBenefitsProperties;
+  mutation_properties: Record<string, unknown>;
 }
 
 export type MutationDefinitionName =
@@ -52,12 +37,25 @@ export type MutationDefinitionName =
 
 export type MutationType = 'DOSSIER_CREATION' | 'DOSSIER';
 
+export interface DossierCreationMutation extends Omit<BaseMutation, 'mutation_properties'> {
+  mutation_type: 'DOSSIER_CREATION';
+  mutation_definition_name: 'create_dossier';
+  mutation_properties: CreateDossierProperties;
+}
+
+export interface DossierMutation extends Omit<BaseMutation, 'mutation_properties'> {
+  mutation_type: 'DOSSIER';
+  mutation_definition_name: 'add_policy' | 'apply_indexation' | 'calculate_retirement_benefit' | 'project_future_benefits';
+  dossier_id: string;
+  mutation_properties: AddPolicyProperties | ApplyIndexationProperties | CalculateRetirementBenefitProperties | ProjectFutureBenefitsProperties;
+}
+
 // ============ Mutation Property Types ============
 
 export interface CreateDossierProperties {
   dossier_id: string;
-  person_id: string;
   name: string;
+  person_id: string;
   birth_date: string;
 }
 
@@ -102,9 +100,28 @@ export interface CalculationMetadata {
 
 export interface CalculationResult {
   messages: CalculationMessage[];
-  mutations: ProcessedMutation[];
   end_situation: EndSituation;
   initial_situation: InitialSituation;
+  mutations: ProcessedMutation[];
+}
+
+export interface EndSituation {
+  mutation_id: string;
+  mutation_index: number;
+  actual_at: string;
+  situation: Situation;
+}
+
+export interface InitialSituation {
+  actual_at: string;
+  situation: Situation;
+}
+
+export interface ProcessedMutation {
+  mutation: CalculationMutation;
+  forward_patch_to_situation_after_this_mutation?: JsonPatchDocument;
+  backward_patch_to_previous_situation?: JsonPatchDocument;
+  calculation_message_indexes?: number[];
 }
 
 export interface CalculationMessage {
@@ -114,12 +131,7 @@ export interface CalculationMessage {
   message: string;
 }
 
-export interface ProcessedMutation {
-  mutation: CalculationMutation;
-  forward_patch_to_situation_after_this_mutation?: JsonPatchOperation[];
-  backward_patch_to_previous_situation?: JsonPatchOperation[];
-  calculation_message_indexes?: number[];
-}
+export type JsonPatchDocument = JsonPatchOperation[];
 
 export interface JsonPatchOperation {
   op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
@@ -128,18 +140,6 @@ export interface JsonPatchOperation {
   from?: string;
 }
 
-export interface EndSituation {
-  mutation_id: string;
-  mutation_index: number;
-  actual_at: string;
-  situation: Situation;
-}
-
-export interface InitialSituation {
-  actual_at: string;
-  situation: Situation;
-}
-
 export interface Situation {
   dossier: Dossier | null;
 }
@@ -147,7 +147,7 @@ export interface Situation {
 export interface Dossier {
   dossier_id: string;
   status: 'ACTIVE' | 'RETIRED';
-  retirement_date: string | null;
+  retirement_date?: string | null;
   persons: Person[];
   policies: Policy[];
 }
@@ -165,8 +165,8 @@ export interface Policy {
   employment_start_date: string;
   salary: number;
   part_time_factor: number;
-  attainable_pension: number | null;
-  projections: Projection[] | null;
+  attainable_pension?: number | null;
+  projections?: Projection[] | null;
 }
 
 export interface Projection {
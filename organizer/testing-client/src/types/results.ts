@@ -13,6 +13,16 @@ export interface TestResults {
   code_quality: CodeQualityResults;
   total: TotalScore;
   technology_stack?: string;
+  /** Present only when the differential suite was run (not scored). */
+  differential?: DifferentialResults;
+  /** Present only with --contract-score (reported separately, not part of the total). */
+  contract?: ContractResults;
+  /** Present only when the metamorphic suite was run (not scored). */
+  metamorphic?: MetamorphicResults;
+  /** Present only when the soak suite was run (not scored). */
+  soak?: SoakResults;
+  /** Present only when the cold start test ran (scored separately, not part of the total). */
+  resources?: ResourceResults;
 }
 
 /**
@@ -31,6 +41,21 @@ export interface EnvironmentSnapshot {
   load_avg_5m: number;
   load_avg_15m: number;
   node_version: string;
+  /** Present when the performance suite ran against a resource-limited container (--performance-container). */
+  container_limits?: ContainerLimitsSnapshot;
+}
+
+/**
+ * Docker limits of the container the performance suite ran against, so scores from
+ * different machines can be compared at equal resources.
+ */
+export interface ContainerLimitsSnapshot {
+  image: string;
+  /** CPU quota (Docker NanoCpus / 1e9). */
+  cpus: number;
+  memory_mb: number;
+  /** CPUs the container was pinned to, or null when it could use any. */
+  cpuset: string | null;
 }
 
 export interface CorrectnessResults {
@@ -46,7 +71,19 @@ export interface ScenarioResult {
   points: number;
   max_points: number;
   errors: string[];
+  /** api-spec.yaml schema violations ("<json pointer>: <message>"); absent when no response body was received. */
+  contract_violations?: string[];
+  /** Response invariant violations ("<invariant>: <message>"), reported separately from fixture mismatches. */
+  invariant_violations?: string[];
   response_time_ms?: number;
+  /** Size of the JSON request body. */
+  request_bytes?: number;
+  /** Size of the decoded response body. */
+  response_bytes?: number;
+  /** Response body size as received, after Content-Encoding. */
+  encoded_response_bytes?: number;
+  /** response_bytes / encoded_response_bytes when the response was compressed (gzip negotiated), else null. */
+  compression_ratio?: number | null;
 }
 
 export interface PerformanceResults {
@@ -55,16 +92,106 @@ export interface PerformanceResults {
   throughput: ThroughputStats | null;
   concurrency: ConcurrencyStats | null;
   relative_scores: RelativePerformanceScores | null;
+  /** Present only when --open-loop-rates was given (not scored). */
+  open_loop?: OpenLoopResults;
+  /** Validation of sampled responses sent during the performance tests. */
+  spot_checks?: SpotCheckResults;
+  /** Latency on generated large dossiers; absent with --skip-scalability (not scored). */
+  scalability?: ScalabilityResults;
+  /** Present only when --transports was given (not scored). */
+  transports?: TransportResult[];
+}
+
+/**
+ * Correctness, latency and throughput over one protocol and response encoding.
+ */
+export interface TransportResult {
+  protocol: 'http1' | 'h2c';
+  /** Accept-Encoding offered. */
+  encoding: 'identity' | 'gzip' | 'br';
+  /** Passing correctness scenarios sent once each. */
+  checked: number;
+  correct: number;
+  /** First incorrect responses, prefixed with the scenario ID. */
+  errors: string[];
+  /** Content-Encoding values the target answered with ("identity" when not compressed). */
+  content_encodings: string[];
+  /** Total decoded / received response bytes (null when no response was compressed). */
+  compression_ratio: number | null;
+  /** Sequential request latency. */
+  latency: LatencyStats;
+  /** Closed-loop throughput. */
+  requests_per_second: number;
+  error_count: number;
+}
+
+/**
+ * How latency grows with dossier size, measured on generated stress scenarios.
+ */
+export interface ScalabilityResults {
+  /** Growing number of add_policy / apply_indexation mutations. */
+  by_mutation_count: ScalabilityPoint[];
+  /** Fixed dossier with a growing monthly project_future_benefits horizon. */
+  by_projection_months: ScalabilityPoint[];
+  /** Exponent b of the fitted mean latency ≈ a·mutations^b (1 = linear; null: fewer than two correct points). */
+  mutation_growth_exponent: number | null;
+  /** Exponent b of the fitted mean latency ≈ a·months^b. */
+  projection_growth_exponent: number | null;
+}
+
+export interface ScalabilityPoint {
+  scenario_id: string;
+  mutation_count: number;
+  projection_months: number;
+  /** Whether the first response matched the reference engine. */
+  correct: boolean;
+  errors: string[];
+  /** Null when the response was incorrect (latency is not measured). */
+  latency: LatencyStats | null;
+}
+
+export interface SpotCheckResults {
+  /** Whether requests were per-request variants of the fixtures. */
+  unique_payloads: boolean;
+  /** Fraction of responses validated. */
+  sample_rate: number;
+  checked: number;
+  passed: number;
+  failed: number;
+  /** Checks made during the throughput, concurrency and open-loop tests. */
+  under_load_checked: number;
+  /** Fraction of those checks that passed (null when none were made). */
+  correct_under_load_rate: number | null;
+  /** Largest tolerated fraction of incorrect responses under load. */
+  max_incorrect_under_load: number;
+  /** True when more responses under load were incorrect than tolerated: performance scores are zero. */
+  penalized: boolean;
+  /** First failing responses (at most 10). */
+  failures: SpotCheckFailure[];
+}
+
+export type LoadTest = 'latency' | 'throughput' | 'concurrency' | 'open_loop';
+
+export interface SpotCheckFailure {
+  test: LoadTest;
+  fixture_id: string;
+  errors: string[];
 }
 
 export interface LatencyStats {
   mean_ms: number;
   median_ms: number;
+  p75_ms: number;
+  p90_ms: number;
   p95_ms: number;
   p99_ms: number;
+  p99_9_ms: number;
+  p99_99_ms: number;
   min_ms: number;
   max_ms: number;
   sample_count: number;
+  /** HDR histogram of all samples (µs, compressed base64), for merging across runs. */
+  histogram?: string;
 }
 
 export interface ThroughputStats {
@@ -73,6 +200,25 @@ export interface ThroughputStats {
   total_requests: number;
   error_count: number;
   error_rate: number;
+  /** Response bytes received per second (headers included, uncompressed). */
+  bytes_per_second: number;
+  /** Traffic profile name, or null for a uniform mix of all passing scenarios. */
+  profile: string | null;
+  scenarios: ScenarioThroughput[];
+}
+
+export interface ScenarioThroughput {
+  id: string;
+  /** Traffic profile group the scenario was selected by ("uniform" without a profile). */
+  group: string;
+  /** Configured fraction of all requests. */
+  share: number;
+  requests: number;
+  requests_per_second: number;
+  error_count: number;
+  /** Mean size of a response body. */
+  mean_response_bytes: number;
+  latency: LatencyStats;
 }
 
 export interface ConcurrencyStats {
@@ -80,6 +226,43 @@ export interface ConcurrencyStats {
   mean_ms: number;
   p99_ms: number;
   error_count: number;
+  /** Throughput and latency at each connection count of the sweep (1, 2, 4, ...). */
+  curve: ConcurrencyStep[];
+  /** Connection count beyond which latency grows faster than throughput (null: no step without errors). */
+  knee_concurrency: number | null;
+  /** Scaling efficiency at the knee. */
+  scaling_efficiency: number | null;
+}
+
+export interface ConcurrencyStep {
+  connections: number;
+  requests_per_second: number;
+  mean_ms: number;
+  p50_ms: number;
+  p99_ms: number;
+  error_count: number;
+  /** Throughput relative to N times the single-connection throughput (1 = linear scaling). */
+  scaling_efficiency: number;
+}
+
+export interface OpenLoopResults {
+  p99_slo_ms: number;
+  step_duration_seconds: number;
+  /** Highest target rate whose p99 stayed within the SLO without errors (null: none did). */
+  max_sustainable_rps: number | null;
+  steps: OpenLoopStep[];
+}
+
+export interface OpenLoopStep {
+  target_rps: number;
+  achieved_rps: number;
+  sent: number;
+  error_count: number;
+  /** Latency from each request's intended send time (corrected for coordinated omission). */
+  latency: LatencyStats;
+  /** Largest delay between a request's intended and actual send time on the client side. */
+  max_send_lag_ms: number;
+  sustainable: boolean;
 }
 
 export interface RelativePerformanceScores {
@@ -98,6 +281,10 @@ export interface BonusResults {
   clean_architecture: CleanArchitectureResult;
   cold_start: ColdStartResult;
   scheme_registry: BonusFeatureResult;
+  /** Present only when the scheme registry test passed (not scored). */
+  scheme_registry_lookups?: SchemeRegistryLookupResults;
+  /** Present only when the scheme registry test passed (not scored). */
+  scheme_registry_faults?: SchemeRegistryFaultResults;
   project_future_benefits: BonusFeatureResult;
 }
 
@@ -105,6 +292,49 @@ export interface BonusFeatureResult {
   passed: boolean;
   points: number;
   errors?: string[];
+  /** Response invariant violations, prefixed with the fixture ID. Do not affect points. */
+  invariant_violations?: string[];
+}
+
+/**
+ * How the engine looks up schemes in the registry: whether it caches them across
+ * requests, fetches every distinct scheme of a request, and applies each scheme's
+ * rate to that scheme's policies.
+ */
+export interface SchemeRegistryLookupResults {
+  /** Sequential requests sharing the same scheme IDs. */
+  batch_requests: number;
+  /** Registry calls for those scheme IDs during the batch. */
+  batch_registry_calls: number;
+  caches_lookups: boolean;
+  distinct_schemes_fetched: boolean;
+  per_scheme_rates_applied: boolean;
+  errors: string[];
+}
+
+/**
+ * How the engine copes with a misbehaving scheme registry. A check passes when the
+ * engine answers within the time limit, still serves requests afterwards, and either
+ * falls back to the default accrual rate (0.02) or reports a calculation message.
+ */
+export interface SchemeRegistryFaultResults {
+  passed: number;
+  total: number;
+  checks: SchemeRegistryFaultCheck[];
+}
+
+export interface SchemeRegistryFaultCheck {
+  /** not-found, server-error, timeout, malformed-json or slow. */
+  fault: string;
+  passed: boolean;
+  /**
+   * fallback: default rate applied; registry-rate: the slow answer was waited for;
+   * message: the engine reported a calculation message. Null when the check failed.
+   */
+  outcome: 'fallback' | 'registry-rate' | 'message' | null;
+  /** Response time of the engine, null when it did not answer. */
+  elapsed_ms: number | null;
+  errors: string[];
 }
 
 export interface CleanArchitectureResult {
@@ -122,8 +352,58 @@ export interface CleanArchitectureResult {
 }
 
 export interface ColdStartResult {
+  /** Median time from container start to the first HTTP 200 (scored). */
   time_ms: number | null;
   points: number;
+  /** Medians of the startup phases over the successful attempts (not scored). */
+  breakdown?: ColdStartBreakdown;
+}
+
+/**
+ * Where a cold start spends its time, measured from container start.
+ * A phase is null when no attempt reached it.
+ */
+export interface ColdStartBreakdown {
+  /** The container's port 8080 accepts TCP connections. */
+  listen_ms: number | null;
+  /** First HTTP response of any status. */
+  first_response_ms: number | null;
+  /** First C01 response that passes validateResponse. */
+  first_correct_ms: number | null;
+  /** Latencies of the first HTTP 200 responses, in order, counting those to the readiness polls (JIT and cache warm-up). */
+  warmup_latencies_ms: number[];
+}
+
+/**
+ * Resource footprint of the team container from --cold-start-image: image size,
+ * memory at idle and under load, and CPU time per request during a throughput run.
+ * Each metric scores 0-2 points by tier; null metrics (not measurable) score 0.
+ */
+export interface ResourceResults {
+  image_size_bytes: number | null;
+  /** RSS after startup, before any load. */
+  idle_rss_bytes: number | null;
+  /** Highest RSS sampled during the throughput test. */
+  peak_rss_bytes: number | null;
+  /** CPU time consumed during the throughput test. */
+  load_cpu_seconds: number | null;
+  /** CPU time consumed from container start to the end of the throughput test. */
+  total_cpu_seconds: number | null;
+  load_requests: number;
+  /**
+   * Which throughput test the load figures come from: the performance suite's own
+   * (--performance-container), or a separate run of it against the resource test's container.
+   */
+  load_source: 'throughput-test' | 'separate-run';
+  cpu_ms_per_request: number | null;
+  scores: {
+    image_size: number;
+    idle_rss: number;
+    peak_rss: number;
+    cpu_per_request: number;
+  };
+  points: number;
+  max: number;
 }
 
 export interface CodeQualityResults {
@@ -142,6 +422,101 @@ export interface CodeQualityResults {
   summary?: string;
 }
 
+/**
+ * Results of comparing the target against the reference engine on generated requests.
+ */
+export interface DifferentialResults {
+  seed: number;
+  total: number;
+  passed: number;
+  failed: number;
+  /** Shrunk reproductions of the first failures (capped). */
+  failures: DifferentialFailure[];
+  /** Number of generated requests whose response violated an invariant. */
+  invariant_violation_count: number;
+  /** Invariant violations of the first offending responses (capped), prefixed with the request number. */
+  invariant_violations: string[];
+}
+
+export interface DifferentialFailure {
+  /** Path of the fixture file reproducing the failure. */
+  fixture_path: string;
+  original_mutation_count: number;
+  shrunk_mutation_count: number;
+  errors: string[];
+}
+
+/**
+ * Results of checking relations between responses to fixture requests and derived follow-up requests.
+ */
+export interface MetamorphicResults {
+  total: number;
+  passed: number;
+  failed: number;
+  checks: MetamorphicCheck[];
+}
+
+export interface MetamorphicCheck {
+  /** Relation name, e.g. "split-indexation". */
+  relation: string;
+  /** Fixture the follow-up request was derived from. */
+  fixture_id: string;
+  passed: boolean;
+  errors: string[];
+}
+
+/**
+ * Latency and container resource time series from a long-running mixed-traffic load.
+ */
+export interface SoakResults {
+  duration_seconds: number;
+  sample_interval_seconds: number;
+  total_requests: number;
+  error_count: number;
+  /** Null when container memory was not sampled or there were too few samples. */
+  memory_trend: SoakTrend | null;
+  /** Null when there were too few samples. */
+  p99_trend: SoakTrend | null;
+  samples: SoakSample[];
+}
+
+export interface SoakSample {
+  /** Seconds from the start of the run to the end of this sample's interval. */
+  elapsed_seconds: number;
+  requests: number;
+  error_count: number;
+  latency: LatencyStats;
+  /** Container resident memory (null without --cold-start-image or a running container). */
+  memory_rss_bytes: number | null;
+  /** Container CPU usage, 100 = one full core. */
+  cpu_percent: number | null;
+}
+
+export interface SoakTrend {
+  /** Slope of the least-squares line, in the sampled unit per minute. */
+  slope_per_minute: number;
+  /** Rise of the fitted line over the run, as a fraction of the mean. */
+  relative_increase: number;
+  /** True when the rise suggests a leak or degradation. */
+  flagged: boolean;
+}
+
+/**
+ * Conformance of correctness responses to the api-spec.yaml response schema.
+ * One point per scenario whose response has no schema violations.
+ */
+export interface ContractResults {
+  points: number;
+  max: number;
+  scenarios: ContractScenarioResult[];
+}
+
+export interface ContractScenarioResult {
+  id: string;
+  conforming: boolean;
+  violations: string[];
+}
+
 export interface TotalScore {
   scored: number;
   max_scoreable_by_tool: number;
@@ -157,6 +532,9 @@ export interface LeaderboardEntry {
   bonus: number;
   code_quality: number;
   total: number;
+  /** Knee of the concurrency scaling curve (not scored). */
+  concurrency_knee: number | null;
+  scaling_efficiency: number | null;
 }
 
 /**
@@ -0,0 +1,54 @@
+/**
+ * Types for declarative scenario files (scenarios/*.yaml).
+ * A scenario is compiled into a TestFixture by computing the expected
+ * result with the reference engine.
+ */
+
+import {
+  AddPolicyProperties,
+  ApplyIndexationProperties,
+  CalculateRetirementBenefitProperties,
+  ProjectFutureBenefitsProperties,
+} from './api';
+import { FixtureCategory, FixtureComplexity } from './fixtures';
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  points: number;
+  category: FixtureCategory;
+  complexity?: FixtureComplexity;
+  /** Defaults to "test_tenant". */
+  tenant_id?: string;
+  /** The create_dossier mutation. Omit to send dossier mutations without a dossier. */
+  dossier?: ScenarioDossier;
+  /** Dossier mutations, in order. */
+  mutations?: ScenarioMutation[];
+  /** Message codes the scenario must produce, in order. Defaults to none. */
+  expected_messages?: string[];
+}
+
+export interface ScenarioDossier {
+  name: string;
+  birth_date: string;
+  /** Defaults to 2020-01-01. */
+  actual_at?: string;
+  dossier_id?: string;
+  person_id?: string;
+  mutation_id?: string;
+}
+
+/**
+ * One dossier mutation, keyed by its mutation definition name, e.g.
+ * `- apply_indexation: { percentage: 0.03 }`.
+ * `actual_at` defaults to the previous mutation's actual_at.
+ */
+export interface ScenarioMutation {
+  actual_at?: string;
+  mutation_id?: string;
+  add_policy?: AddPolicyProperties;
+  apply_indexation?: ApplyIndexationProperties;
+  calculate_retirement_benefit?: CalculateRetirementBenefitProperties;
+  project_future_benefits?: ProjectFutureBenefitsProperties;
+}
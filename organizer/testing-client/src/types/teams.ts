@@ -0,0 +1,12 @@
+/**
+ * Types for the teams file (organizer/infrastructure/teams.json) read by the
+ * multi-team orchestrator (--teams-file).
+ */
+
+export interface TeamEntry {
+  /** Used in image, container and result file names. */
+  name: string;
+  github_usernames?: string[];
+  /** Cloned with --depth 1; the Dockerfile must be in the repository root. */
+  repo_url: string;
+}
@@ -0,0 +1,26 @@
+/**
+ * Types for traffic profile files (traffic-profiles/*.yaml).
+ * A profile weights groups of fixtures so the throughput test sends a
+ * realistic request mix instead of cycling uniformly through all fixtures.
+ */
+
+import { FixtureComplexity } from './fixtures';
+
+export interface TrafficProfile {
+  name: string;
+  description?: string;
+  groups: TrafficGroup[];
+}
+
+/**
+ * A share of the traffic, spread evenly over the fixtures it selects.
+ * Select fixtures either by `complexity` or by listing `scenarios`.
+ */
+export interface TrafficGroup {
+  name: string;
+  /** Relative weight; weights need not add up to 100. */
+  weight: number;
+  complexity?: FixtureComplexity;
+  /** Fixture IDs, e.g. [C07, C08]. */
+  scenarios?: string[];
+}
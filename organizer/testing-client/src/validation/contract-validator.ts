@@ -0,0 +1,186 @@
+/**
+ * Validates responses against the schemas in api-spec.yaml.
+ *
+ * The OpenAPI 3.0 schemas are converted to JSON Schema (2019-09) when first
+ * used, so the spec stays the single source of truth for the response contract.
+ * Violations are reported with JSON pointers into the response body.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from 'yaml';
+import Ajv2019, { ErrorObject } from 'ajv/dist/2019';
+import addFormats from 'ajv-formats';
+
+const API_SPEC_PATH = path.join(__dirname, '..', '..', '..', '..', 'api-spec.yaml');
+const SPEC_SCHEMA_ID = 'api-spec';
+
+/** OpenAPI-only keywords that have no JSON Schema meaning. */
+const OPENAPI_ONLY_KEYWORDS = ['nullable', 'example', 'discriminator', 'xml', 'externalDocs'];
+
+export interface ContractViolation {
+  /** JSON pointer into the validated body ("" is the root). */
+  pointer: string;
+  message: string;
+}
+
+let ajvInstance: Ajv2019 | null = null;
+
+/**
+ * Load api-spec.yaml and register its component schemas (cached after first call).
+ */
+function getAjv(): Ajv2019 {
+  if (ajvInstance) return ajvInstance;
+
+  const spec = parse(fs.readFileSync(API_SPEC_PATH, 'utf-8')) as {
+    components: { schemas: Record<string, unknown> };
+  };
+  const schemas = spec.components.schemas;
+  const closedMembers = findClosedAllOfMembers(schemas);
+
+  const converted: Record<string, unknown> = {};
+  for (const [name, schema] of Object.entries(schemas)) {
+    converted[name] = toJsonSchema(schema, closedMembers, closedMembers.has(name));
+  }
+
+  ajvInstance = new Ajv2019({ allErrors: true, strict: false });
+  addFormats(ajvInstance);
+  ajvInstance.addSchema({ $id: SPEC_SCHEMA_ID, components: { schemas: converted } });
+  return ajvInstance;
+}
+
+/**
+ * Validate a value against a named schema in components/schemas.
+ */
+export function validateAgainstSchema(value: unknown, schemaName: string): ContractViolation[] {
+  const validate = getAjv().getSchema(`${SPEC_SCHEMA_ID}#/components/schemas/${schemaName}`);
+  if (!validate) {
+    throw new Error(`Schema "${schemaName}" not found in api-spec.yaml`);
+  }
+  if (validate(value)) return [];
+  // "must match then schema" only wraps the branch errors that are already reported
+  return (validate.errors ?? []).filter(e => e.keyword !== 'if').map(toViolation);
+}
+
+/**
+ * Validate a POST /calculation-requests response body against the schema for its status code.
+ */
+export function validateResponseContract(httpStatus: number, body: unknown): ContractViolation[] {
+  const schemaName = httpStatus === 200 ? 'CalculationResponse' : 'ErrorResponse';
+  return validateAgainstSchema(body, schemaName);
+}
+
+/**
+ * Format a violation for console and JSON output.
+ */
+export function formatContractViolation(violation: ContractViolation): string {
+  return `${violation.pointer || '/'}: ${violation.message}`;
+}
+
+function toViolation(error: ErrorObject): ContractViolation {
+  const params = error.params as Record<string, unknown>;
+  let message = error.message ?? error.keyword;
+  if (error.keyword === 'additionalProperties' || error.keyword === 'unevaluatedProperties') {
+    const property = params.additionalProperty ?? params.unevaluatedProperty;
+    message = `unexpected property "${property}"`;
+  } else if (error.keyword === 'enum') {
+    message = `must be one of ${(params.allowedValues as unknown[]).map(v => JSON.stringify(v)).join(', ')}`;
+  }
+  return { pointer: error.instancePath, message };
+}
+
+// ============ OpenAPI → JSON Schema ============
+
+interface Discriminator {
+  propertyName: string;
+  mapping?: Record<string, string>;
+}
+
+/**
+ * Express a discriminated oneOf as if/then branches keyed on the discriminator property.
+ */
+function discriminatedUnion(discriminator: Discriminator): Record<string, unknown> {
+  const { propertyName, mapping = {} } = discriminator;
+  return {
+    required: [propertyName],
+    properties: { [propertyName]: { enum: Object.keys(mapping) } },
+    allOf: Object.entries(mapping).map(([value, ref]) => ({
+      if: { properties: { [propertyName]: { const: value } } },
+      then: { $ref: ref },
+    })),
+  };
+}
+
+/**
+ * Names of component schemas with `additionalProperties: false` that are referenced from an allOf.
+ */
+function findClosedAllOfMembers(schemas: Record<string, unknown>): Set<string> {
+  const names = new Set<string>();
+  const visit = (node: unknown): void => {
+    if (!node || typeof node !== 'object') return;
+    const obj = node as Record<string, unknown>;
+    for (const member of (Array.isArray(obj.allOf) ? obj.allOf : []) as Record<string, unknown>[]) {
+      const name = typeof member.$ref === 'string' ? member.$ref.split('/').pop()! : '';
+      if ((schemas[name] as Record<string, unknown> | undefined)?.additionalProperties === false) {
+        names.add(name);
+      }
+    }
+    Object.values(obj).forEach(visit);
+  };
+  visit(schemas);
+  return names;
+}
+
+/**
+ * Convert an OpenAPI 3.0 schema object to JSON Schema:
+ * - `nullable: true` becomes a union with "null"
+ * - OpenAPI-only keywords are dropped
+ * - a oneOf with a discriminator mapping only validates the mapped branch, so a
+ *   broken mutation is reported against its own schema rather than every branch
+ * - `additionalProperties: false` on a schema used inside allOf would reject the
+ *   properties added by the other allOf members, so it is lifted to
+ *   `unevaluatedProperties: false` on the composing schema instead
+ */
+function toJsonSchema(node: unknown, closedMembers: Set<string>, isClosedMember = false): unknown {
+  if (Array.isArray(node)) return node.map(n => toJsonSchema(n, closedMembers));
+  if (!node || typeof node !== 'object') return node;
+
+  const source = node as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(source)) {
+    if (OPENAPI_ONLY_KEYWORDS.includes(key)) continue;
+    if (key === 'additionalProperties' && value === false && isClosedMember) continue;
+
+    if (key === 'properties' && value && typeof value === 'object') {
+      // Property names are data, not keywords: convert each property schema
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([name, schema]) => [name, toJsonSchema(schema, closedMembers)])
+      );
+    } else {
+      result[key] = toJsonSchema(value, closedMembers);
+    }
+  }
+
+  const discriminator = source.discriminator as Discriminator | undefined;
+  if (discriminator?.mapping && Array.isArray(source.oneOf)) {
+    delete result.oneOf;
+    Object.assign(result, discriminatedUnion(discriminator));
+  }
+
+  if (source.nullable === true) {
+    if (typeof result.type === 'string') {
+      result.type = [result.type, 'null'];
+    }
+    if (Array.isArray(result.enum)) {
+      result.enum = [...result.enum, null];
+    }
+  }
+
+  const allOf = Array.isArray(source.allOf) ? source.allOf as Record<string, unknown>[] : [];
+  if (allOf.some(m => typeof m.$ref === 'string' && closedMembers.has(m.$ref.split('/').pop()!))) {
+    result.unevaluatedProperties = false;
+  }
+
+  return result;
+}
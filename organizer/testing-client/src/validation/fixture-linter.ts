@@ -0,0 +1,168 @@
+/**
+ * Lints test fixtures: checks the TestFixture shape, validates every mutation
+ * against mutation-definitions/, and re-derives the expected result with the
+ * reference engine to catch hand-edited or stale expectations.
+ */
+
+import { CalculationMutation } from '../types/api';
+import { TestFixture } from '../types/fixtures';
+import { calculate } from '../helpers/pension-math';
+import { buildExpectedResult } from '../helpers/fixture-builder';
+import { compareSituations } from './situation-comparator';
+import { validateMutation } from './mutation-schema-validator';
+
+type JsonType = 'string' | 'number' | 'object' | 'array';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Lint a parsed fixture file. Returns a list of problems (empty when the fixture is consistent).
+ * Mutation and reference checks only run once the shape is valid.
+ */
+export function lintFixture(value: unknown): string[] {
+  const shapeProblems = checkFixtureShape(value);
+  if (shapeProblems.length > 0) return shapeProblems;
+
+  const fixture = value as TestFixture;
+  return [
+    ...checkMutations(fixture),
+    ...checkAgainstReference(fixture),
+  ];
+}
+
+/**
+ * Check that a parsed value has the TestFixture shape.
+ * Returns a list of problems (empty when the shape is valid).
+ */
+export function checkFixtureShape(value: unknown): string[] {
+  const problems: string[] = [];
+  if (!expectType(problems, value, '', 'object')) return problems;
+
+  const fixture = value as Record<string, unknown>;
+  expectType(problems, fixture.id, 'id', 'string');
+  expectType(problems, fixture.name, 'name', 'string');
+  expectType(problems, fixture.description, 'description', 'string');
+  expectType(problems, fixture.points, 'points', 'number');
+  expectOneOf(problems, fixture.category, 'category', ['correctness', 'bonus']);
+  if (fixture.complexity !== undefined) {
+    expectOneOf(problems, fixture.complexity, 'complexity', ['simple', 'complex']);
+  }
+
+  checkRequestShape(problems, fixture.request);
+  checkExpectedShape(problems, fixture.expected);
+
+  return problems;
+}
+
+function checkRequestShape(problems: string[], value: unknown): void {
+  if (!expectType(problems, value, 'request', 'object')) return;
+  const request = value as Record<string, unknown>;
+
+  expectType(problems, request.tenant_id, 'request.tenant_id', 'string');
+  if (!expectType(problems, request.calculation_instructions, 'request.calculation_instructions', 'object')) return;
+
+  const mutations = (request.calculation_instructions as Record<string, unknown>).mutations;
+  if (!expectType(problems, mutations, 'request.calculation_instructions.mutations', 'array')) return;
+  if ((mutations as unknown[]).length === 0) {
+    problems.push('request.calculation_instructions.mutations: must contain at least one mutation');
+  }
+
+  (mutations as unknown[]).forEach((m, i) => {
+    const path = `request.calculation_instructions.mutations[${i}]`;
+    if (!expectType(problems, m, path, 'object')) return;
+    const mutation = m as Record<string, unknown>;
+
+    expectType(problems, mutation.mutation_id, `${path}.mutation_id`, 'string');
+    expectType(problems, mutation.mutation_definition_name, `${path}.mutation_definition_name`, 'string');
+    expectOneOf(problems, mutation.mutation_type, `${path}.mutation_type`, ['DOSSIER_CREATION', 'DOSSIER']);
+    expectDate(problems, mutation.actual_at, `${path}.actual_at`);
+    expectType(problems, mutation.mutation_properties, `${path}.mutation_properties`, 'object');
+    if (mutation.mutation_type === 'DOSSIER') {
+      expectType(problems, mutation.dossier_id, `${path}.dossier_id`, 'string');
+    }
+  });
+}
+
+function checkExpectedShape(problems: string[], value: unknown): void {
+  if (!expectType(problems, value, 'expected', 'object')) return;
+  const expected = value as Record<string, unknown>;
+
+  expectType(problems, expected.http_status, 'expected.http_status', 'number');
+  expectOneOf(problems, expected.calculation_outcome, 'expected.calculation_outcome', ['SUCCESS', 'FAILURE']);
+  expectType(problems, expected.message_count, 'expected.message_count', 'number');
+  expectType(problems, expected.end_situation, 'expected.end_situation', 'object');
+  expectType(problems, expected.end_situation_mutation_id, 'expected.end_situation_mutation_id', 'string');
+  expectType(problems, expected.end_situation_mutation_index, 'expected.end_situation_mutation_index', 'number');
+  expectDate(problems, expected.end_situation_actual_at, 'expected.end_situation_actual_at');
+  expectType(problems, expected.mutations_processed_count, 'expected.mutations_processed_count', 'number');
+
+  if (expectType(problems, expected.messages, 'expected.messages', 'array')) {
+    (expected.messages as unknown[]).forEach((m, i) => {
+      const path = `expected.messages[${i}]`;
+      if (!expectType(problems, m, path, 'object')) return;
+      const message = m as Record<string, unknown>;
+      expectOneOf(problems, message.level, `${path}.level`, ['CRITICAL', 'WARNING']);
+      expectType(problems, message.code, `${path}.code`, 'string');
+    });
+  }
+}
+
+/**
+ * Validate each mutation against its definition and check mutation IDs are unique.
+ */
+function checkMutations(fixture: TestFixture): string[] {
+  const problems: string[] = [];
+  const mutations = fixture.request.calculation_instructions.mutations;
+  const seenIds = new Set<string>();
+
+  mutations.forEach((mutation: CalculationMutation, i) => {
+    const path = `request.calculation_instructions.mutations[${i}]`;
+    for (const problem of validateMutation(mutation)) {
+      problems.push(`${path}.${problem}`);
+    }
+    if (seenIds.has(mutation.mutation_id)) {
+      problems.push(`${path}.mutation_id: duplicate mutation_id "${mutation.mutation_id}"`);
+    }
+    seenIds.add(mutation.mutation_id);
+  });
+
+  return problems;
+}
+
+/**
+ * Re-derive the expected block with the reference engine and report every difference.
+ */
+function checkAgainstReference(fixture: TestFixture): string[] {
+  let derived;
+  try {
+    derived = buildExpectedResult(calculate(fixture.request));
+  } catch (error) {
+    return [`Reference engine failed on this request: ${(error as Error).message}`];
+  }
+
+  return compareSituations(derived, fixture.expected, 'expected')
+    .map(e => `${e.path}: ${e.message} (reference vs. fixture)`);
+}
+
+// ============ Shape helpers ============
+
+function expectType(problems: string[], value: unknown, path: string, type: JsonType): boolean {
+  const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  if (actual !== type) {
+    problems.push(`${path || '(root)'}: expected ${type}, got ${actual}`);
+    return false;
+  }
+  return true;
+}
+
+function expectOneOf(problems: string[], value: unknown, path: string, allowed: string[]): void {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    problems.push(`${path}: expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+  }
+}
+
+function expectDate(problems: string[], value: unknown, path: string): void {
+  if (expectType(problems, value, path, 'string') && !DATE_PATTERN.test(value as string)) {
+    problems.push(`${path}: expected a YYYY-MM-DD date, got "${value}"`);
+  }
+}
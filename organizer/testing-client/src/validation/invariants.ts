@@ -0,0 +1,196 @@
+/**
+ * Invariants every correct engine response satisfies, independent of fixture
+ * expectations (e.g. policy IDs follow {dossier_id}-{seq}, projections are sorted).
+ *
+ * Checks are defensive: parts of the response that are missing or have the wrong
+ * type are skipped here, since the contract validator already reports them.
+ */
+
+import { CalculationRequest, CalculationResponse, Situation } from '../types/api';
+
+const NUMERIC_TOLERANCE = 0.01;
+
+interface Invariant {
+  name: string;
+  check: (request: CalculationRequest, response: CalculationResponse) => string[];
+}
+
+/**
+ * Check a 200 response against all invariants.
+ * Returns violations as "<invariant>: <message>" (empty when all hold).
+ */
+export function checkInvariants(request: CalculationRequest, response: CalculationResponse | null): string[] {
+  if (!response?.calculation_result || !response.calculation_metadata) return [];
+
+  return INVARIANTS.flatMap(invariant => {
+    try {
+      return invariant.check(request, response).map(v => `${invariant.name}: ${v}`);
+    } catch (err) {
+      return [`${invariant.name}: could not be checked (${(err as Error).message})`];
+    }
+  });
+}
+
+// ============ Invariants ============
+
+const INVARIANTS: Invariant[] = [
+  {
+    name: 'outcome-matches-messages',
+    check: (_request, response) => {
+      const hasCritical = (response.calculation_result.messages ?? []).some(m => m.level === 'CRITICAL');
+      const outcome = response.calculation_metadata.calculation_outcome;
+      const expected = hasCritical ? 'FAILURE' : 'SUCCESS';
+      return outcome === expected ? [] : [`outcome is ${outcome} but expected ${expected} from the message levels`];
+    },
+  },
+  {
+    name: 'message-ids',
+    check: (_request, response) =>
+      (response.calculation_result.messages ?? [])
+        .map((m, i) => (m.id === i ? null : `messages[${i}].id is ${m.id}, expected ${i}`))
+        .filter((v): v is string => v !== null),
+  },
+  {
+    name: 'message-indexes',
+    check: (_request, response) => {
+      const messageCount = response.calculation_result.messages?.length ?? 0;
+      const violations: string[] = [];
+      (response.calculation_result.mutations ?? []).forEach((m, i) => {
+        for (const index of m.calculation_message_indexes ?? []) {
+          if (!Number.isInteger(index) || index < 0 || index >= messageCount) {
+            violations.push(`mutations[${i}].calculation_message_indexes refers to missing message ${index}`);
+          }
+        }
+      });
+      return violations;
+    },
+  },
+  {
+    name: 'mutations-processed',
+    check: (request, response) => {
+      const requested = request.calculation_instructions.mutations.length;
+      const processed = response.calculation_result.mutations?.length ?? 0;
+      const success = response.calculation_metadata.calculation_outcome === 'SUCCESS';
+      if (success && processed !== requested) {
+        return [`SUCCESS but ${processed} of ${requested} mutations were processed`];
+      }
+      if (processed < 1 || processed > requested) {
+        return [`${processed} mutations processed for a request with ${requested}`];
+      }
+      return [];
+    },
+  },
+  {
+    name: 'end-situation-mutation',
+    check: (request, response) => {
+      // Processing halts at the first CRITICAL message, so on FAILURE the last processed
+      // mutation failed and the end situation belongs to the one before it (or the first).
+      const processed = response.calculation_result.mutations?.length ?? 0;
+      const failed = response.calculation_metadata.calculation_outcome === 'FAILURE';
+      const index = Math.max(0, failed ? processed - 2 : processed - 1);
+      const mutation = request.calculation_instructions.mutations[index];
+      const end = response.calculation_result.end_situation;
+      if (!mutation || !end) return [];
+
+      const violations: string[] = [];
+      if (end.mutation_index !== index) {
+        violations.push(`end_situation.mutation_index is ${end.mutation_index}, last applied mutation is ${index}`);
+      }
+      if (end.mutation_id?.toLowerCase() !== mutation.mutation_id.toLowerCase()) {
+        violations.push(`end_situation.mutation_id is "${end.mutation_id}", expected "${mutation.mutation_id}" (index ${index})`);
+      }
+      if (end.actual_at !== mutation.actual_at) {
+        violations.push(`end_situation.actual_at is "${end.actual_at}", expected "${mutation.actual_at}" (index ${index})`);
+      }
+      return violations;
+    },
+  },
+  {
+    name: 'initial-situation',
+    check: (request, response) => {
+      const initial = response.calculation_result.initial_situation;
+      if (!initial) return [];
+      const violations: string[] = [];
+      if (initial.situation?.dossier !== null) {
+        violations.push('initial_situation.situation.dossier is not null');
+      }
+      const firstActualAt = request.calculation_instructions.mutations[0].actual_at;
+      if (initial.actual_at !== firstActualAt) {
+        violations.push(`initial_situation.actual_at is "${initial.actual_at}", expected "${firstActualAt}"`);
+      }
+      return violations;
+    },
+  },
+  {
+    name: 'policy-ids',
+    check: (_request, response) => {
+      const dossier = endDossier(response);
+      if (!dossier) return [];
+      return dossier.policies
+        .map((p, i) => {
+          const expected = `${dossier.dossier_id}-${i + 1}`;
+          return p.policy_id?.toLowerCase() === expected.toLowerCase()
+            ? null
+            : `policies[${i}].policy_id is "${p.policy_id}", expected "${expected}"`;
+        })
+        .filter((v): v is string => v !== null);
+    },
+  },
+  {
+    name: 'non-negative-amounts',
+    check: (_request, response) => {
+      const dossier = endDossier(response);
+      if (!dossier) return [];
+      const violations: string[] = [];
+      dossier.policies.forEach((p, i) => {
+        if (typeof p.salary === 'number' && p.salary < 0) {
+          violations.push(`policies[${i}].salary is negative (${p.salary})`);
+        }
+        if (typeof p.attainable_pension === 'number' && p.attainable_pension < 0) {
+          violations.push(`policies[${i}].attainable_pension is negative (${p.attainable_pension})`);
+        }
+        (p.projections ?? []).forEach((proj, j) => {
+          if (typeof proj.projected_pension === 'number' && proj.projected_pension < 0) {
+            violations.push(`policies[${i}].projections[${j}].projected_pension is negative (${proj.projected_pension})`);
+          }
+        });
+      });
+      return violations;
+    },
+  },
+  {
+    name: 'projections-ordered',
+    check: (_request, response) => {
+      const dossier = endDossier(response);
+      if (!dossier) return [];
+      const violations: string[] = [];
+      dossier.policies.forEach((p, i) => {
+        // Report only the first out-of-order projection per policy
+        const projections = p.projections ?? [];
+        for (let j = 1; j < projections.length; j++) {
+          const prev = projections[j - 1];
+          const curr = projections[j];
+          if (!(curr.date > prev.date)) {
+            violations.push(`policies[${i}].projections[${j}].date ${curr.date} is not after ${prev.date}`);
+            break;
+          }
+          if (curr.projected_pension < prev.projected_pension - NUMERIC_TOLERANCE) {
+            violations.push(
+              `policies[${i}].projections[${j}].projected_pension decreases (${prev.projected_pension} → ${curr.projected_pension})`
+            );
+            break;
+          }
+        }
+      });
+      return violations;
+    },
+  },
+];
+
+/**
+ * The end situation's dossier, if it is present and has a policies array.
+ */
+function endDossier(response: CalculationResponse): NonNullable<Situation['dossier']> | null {
+  const dossier = response.calculation_result.end_situation?.situation?.dossier;
+  return dossier && Array.isArray(dossier.policies) ? dossier : null;
+}
@@ -0,0 +1,86 @@
+/**
+ * Validates mutation_properties against the JSON Schemas in mutation-definitions/.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv2019, { ErrorObject, ValidateFunction } from 'ajv/dist/2019';
+import addFormats from 'ajv-formats';
+import { CalculationMutation } from '../types/api';
+
+const MUTATION_DEFINITIONS_DIR = path.join(__dirname, '..', '..', '..', '..', 'mutation-definitions');
+
+export interface MutationDefinition {
+  name: string;
+  description: string;
+  mutation_type: CalculationMutation['mutation_type'];
+  json_schema: object;
+}
+
+interface CompiledDefinition {
+  definition: MutationDefinition;
+  validate: ValidateFunction;
+}
+
+/** Compiled schemas by mutation definition name (built on first use). */
+let definitionCache: Map<string, CompiledDefinition> | null = null;
+
+/**
+ * Load and compile all mutation definitions (cached after first call).
+ */
+function loadDefinitions(): Map<string, CompiledDefinition> {
+  if (definitionCache) return definitionCache;
+
+  const ajv = new Ajv2019({ allErrors: true });
+  addFormats(ajv);
+
+  definitionCache = new Map();
+  for (const file of fs.readdirSync(MUTATION_DEFINITIONS_DIR).filter(f => f.endsWith('.json')).sort()) {
+    const content = fs.readFileSync(path.join(MUTATION_DEFINITIONS_DIR, file), 'utf-8');
+    const definition = JSON.parse(content) as MutationDefinition;
+    definitionCache.set(definition.name, { definition, validate: ajv.compile(definition.json_schema) });
+  }
+
+  return definitionCache;
+}
+
+/**
+ * Get all known mutation definitions.
+ */
+export function getMutationDefinitions(): MutationDefinition[] {
+  return [...loadDefinitions().values()].map(d => d.definition);
+}
+
+/**
+ * Validate a mutation against its definition: the definition must exist, the
+ * mutation_type must match, and mutation_properties must satisfy the JSON Schema.
+ * Returns a list of problems (empty when valid).
+ */
+export function validateMutation(mutation: CalculationMutation): string[] {
+  const compiled = loadDefinitions().get(mutation.mutation_definition_name);
+  if (!compiled) {
+    return [`Unknown mutation_definition_name "${mutation.mutation_definition_name}"`];
+  }
+
+  const problems: string[] = [];
+
+  if (mutation.mutation_type !== compiled.definition.mutation_type) {
+    problems.push(
+      `mutation_type: expected "${compiled.definition.mutation_type}" for ${compiled.definition.name}, got "${mutation.mutation_type}"`
+    );
+  }
+
+  if (!compiled.validate(mutation.mutation_properties)) {
+    problems.push(...(compiled.validate.errors ?? []).map(formatSchemaError));
+  }
+
+  return problems;
+}
+
+function formatSchemaError(error: ErrorObject): string {
+  const location = `mutation_properties${error.instancePath.replace(/\//g, '.')}`;
+  if (error.keyword === 'additionalProperties') {
+    return `${location}: unexpected property "${(error.params as { additionalProperty: string }).additionalProperty}"`;
+  }
+  return `${location}: ${error.message}`;
+}
@@ -5,10 +5,13 @@
 import { CalculationResponse } from '../types/api';
 import { TestFixture } from '../types/fixtures';
 import { compareSituations, ComparisonError } from './situation-comparator';
+import { validateResponseContract, formatContractViolation } from './contract-validator';
 
 export interface ValidationResult {
   passed: boolean;
   errors: string[];
+  /** Violations of the api-spec.yaml response schema. Reported separately: they do not affect `passed`. */
+  contractViolations: string[];
 }
 
 /**
@@ -29,9 +32,12 @@ export function validateResponse(
 
   if (!body) {
     errors.push('Response body is null or could not be parsed as JSON');
-    return { passed: false, errors };
+    // api-spec.yaml defines a JSON body for every response
+    return { passed: false, errors, contractViolations: ['/: response body is not JSON'] };
   }
 
+  const contractViolations = validateResponseContract(httpStatus, body).map(formatContractViolation);
+
   // 2. Validate response structure (required fields)
   if (!body.calculation_metadata) {
     errors.push('Missing required field: calculation_metadata');
@@ -41,7 +47,7 @@ export function validateResponse(
   }
 
   if (!body.calculation_metadata || !body.calculation_result) {
-    return { passed: false, errors };
+    return { passed: false, errors, contractViolations };
   }
 
   // 3. Validate calculation_metadata
@@ -62,6 +68,7 @@ export function validateResponse(
   return {
     passed: errors.length === 0,
     errors,
+    contractViolations,
   };
 }
 